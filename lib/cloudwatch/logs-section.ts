@@ -6,7 +6,7 @@ this file be licensed under the Apache-2.0 license or a
 compatible open source license. */
 
 /* eslint-disable max-len */
-interface FileCollectionDefinition {
+export interface FileCollectionDefinition {
     // eslint-disable-next-line camelcase
     file_path: string;
     // eslint-disable-next-line camelcase
@@ -15,6 +15,14 @@ interface FileCollectionDefinition {
     auto_removal: boolean;
     // eslint-disable-next-line camelcase
     log_stream_name: string,
+    // strftime format of the timestamps of the log events, e.g. `%Y-%m-%dT%H:%M:%S,%f`, the time of collection otherwise
+    // eslint-disable-next-line camelcase
+    timestamp_format?: string;
+    // time zone of timestamp_format when it has no %z
+    timezone?: 'Local' | 'UTC';
+    // regular expression matching the first line of a log event, `{timestamp_format}` for a line starting with a timestamp
+    // eslint-disable-next-line camelcase
+    multi_line_start_pattern?: string;
 }
 
 interface EditableLogsSection {
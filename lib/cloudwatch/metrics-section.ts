@@ -9,6 +9,44 @@ interface MetricDefinition {
     measurement: string[];
 }
 
+// Dimensions added to the metrics of a single plugin, e.g. `{ role: 'data' }`
+type AppendDimensions = Readonly<Record<string, string>>;
+
+export type ProcstatMeasurement = 'cpu_time_system' | 'cpu_time_user' | 'cpu_usage' | 'memory_rss' | 'memory_swap' | 'memory_vms'
+    | 'num_fds' | 'num_threads' | 'pid_count' | 'read_bytes' | 'read_count' | 'write_bytes' | 'write_count';
+
+// The monitored processes are selected by exactly one of their executable name, their command line or their pid file
+/* eslint-disable camelcase */
+type ProcessSelector = { exe: string, pattern?: never, pid_file?: never }
+    | { exe?: never, pattern: string, pid_file?: never }
+    | { exe?: never, pattern?: never, pid_file: string };
+/* eslint-enable camelcase */
+
+/**
+ * Metrics of the processes matching the selector, see https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch-Agent-procstat-process-metrics.html
+ */
+export type ProcstatDefinition = ProcessSelector & {
+    measurement: ProcstatMeasurement[];
+    // eslint-disable-next-line camelcase
+    metrics_collection_interval?: number;
+    // eslint-disable-next-line camelcase
+    append_dimensions?: AppendDimensions;
+};
+
+/**
+ * StatsD listener of the agent, see https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch-Agent-custom-metrics-statsd.html
+ *
+ * The tags of the received metrics, in the `metric:value|g|#key:value` format, become their dimensions.
+ */
+export interface StatsdDefinition {
+    // eslint-disable-next-line camelcase
+    service_address: string;
+    // eslint-disable-next-line camelcase
+    metrics_collection_interval: number;
+    // eslint-disable-next-line camelcase
+    metrics_aggregation_interval: number;
+}
+
 interface EditableCloudwatchMetricsSection {
     // eslint-disable-next-line camelcase
     metrics_collected: {
@@ -17,6 +55,8 @@ interface EditableCloudwatchMetricsSection {
         diskio: MetricDefinition,
         mem: MetricDefinition,
         net: MetricDefinition,
+        procstat?: ProcstatDefinition[],
+        statsd?: StatsdDefinition,
     };
 }
 
@@ -36,6 +76,18 @@ interface EditableCloudwatchMetricsSection {
  *           "cpu_usage_guest",
  *         ],
  *       },
+ *       "procstat": [
+ *         {
+ *           "pattern": "org.opensearch.bootstrap.OpenSearch",
+ *           "measurement": ["cpu_usage", "memory_rss"],
+ *           "append_dimensions": { "role": "data" },
+ *         },
+ *       ],
+ *       "statsd": {
+ *         "service_address": ":8125",
+ *         "metrics_collection_interval": 60,
+ *         "metrics_aggregation_interval": 60,
+ *       },
  *   }
  *   metrics_collection_interval: 60, // seconds between collections
  * }
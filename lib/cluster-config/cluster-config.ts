@@ -0,0 +1,633 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { Construct } from 'constructs';
+import { existsSync, readFileSync } from 'fs';
+import { load } from 'js-yaml';
+import { resolve } from 'path';
+
+export const CLUSTER_CONFIG_VERSION = 1;
+
+/**
+ * A data tier rendered as its own node group, e.g. hot nodes on i3 instances and warm nodes on r6g instances.
+ * The tier name is set as the `temp` node attribute so that ISM policies can migrate indices between tiers.
+ * Unset fields fall back to `dataInstanceType`, `dataNodeStorage`, `storageVolumeType`, `storageIops`, `storageThroughput`
+ * and the cluster wide data volume and instance store parameters.
+ */
+export interface DataTierConfig {
+  readonly name: string,
+  readonly nodeCount: number,
+  readonly instanceType?: string,
+  readonly storage?: number,
+  readonly volumeType?: string,
+  readonly iops?: number,
+  readonly throughput?: number,
+  readonly roles?: string[],
+  readonly dataVolumeSize?: number,
+  readonly dataVolumeType?: string,
+  readonly dataVolumeIops?: number,
+  readonly dataVolumeThroughput?: number,
+  readonly useInstanceStore?: boolean,
+}
+
+/**
+ * Additional user of the security plugin rendered in `internal_users.yml`.
+ * The password is provided as a bcrypt hash, e.g. generated with `plugins/opensearch-security/tools/hash.sh`.
+ */
+export interface InternalUserConfig {
+  readonly username: string,
+  readonly hash: string,
+  readonly backendRoles?: string[],
+  readonly description?: string,
+}
+
+export interface IndexPermissionConfig {
+  readonly indexPatterns: string[],
+  readonly allowedActions: string[],
+}
+
+/**
+ * Additional role of the security plugin rendered in `roles.yml`, mapped in `roles_mapping.yml` to the given
+ * backend roles and users
+ */
+export interface SecurityRoleConfig {
+  readonly name: string,
+  readonly clusterPermissions?: string[],
+  readonly indexPermissions?: IndexPermissionConfig[],
+  readonly backendRoles?: string[],
+  readonly users?: string[],
+}
+
+/**
+ * Bucket and repositories of the remote store, the bucket is created unless bucketArn imports an existing one.
+ * The created bucket is destroyed along with the stack unless removalPolicy is `retain`. With restoreFromStack a single node
+ * attaches to the remote store of the cluster of another infra stack in the existing bucket.
+ */
+export interface RemoteStoreConfig {
+  readonly bucketArn?: string,
+  readonly removalPolicy?: string,
+  readonly basePath?: string,
+  readonly kmsKeyArn?: string,
+  readonly separateRepositories?: boolean,
+  readonly restoreFromStack?: string,
+}
+
+/**
+ * Retention of the snapshot management policy, the oldest snapshots beyond maxCount or maxAge are deleted
+ * while keeping at least minCount snapshots
+ */
+export interface SnapshotRetentionConfig {
+  readonly maxCount?: number,
+  readonly maxAge?: string,
+  readonly minCount?: number,
+}
+
+/**
+ * S3 snapshot repository registered once the cluster has formed, the bucket is created unless bucketArn imports an existing one.
+ * A snapshot management policy takes snapshots of every index on the schedule cron expression, e.g. `0 2 * * *`.
+ */
+export interface SnapshotRepositoryConfig {
+  readonly bucketArn?: string,
+  readonly basePath?: string,
+  readonly kmsKeyArn?: string,
+  readonly infrequentAccessDays?: number,
+  readonly schedule?: string,
+  readonly retention?: SnapshotRetentionConfig,
+}
+
+/**
+ * Spot capacity of a node group, launched from a mixed instances policy with the instance type of the group followed by
+ * instanceTypes, which must share its architecture. The group keeps onDemandBaseCapacity on-demand instances, then launches
+ * onDemandPercentageAboveBaseCapacity percent of the remaining capacity on demand, and spot instances otherwise.
+ */
+export interface SpotCapacityConfig {
+  readonly instanceTypes?: string[],
+  readonly onDemandBaseCapacity?: number,
+  readonly onDemandPercentageAboveBaseCapacity?: number,
+}
+
+/**
+ * Spot capacity per node group, the data group applies to every data tier. Cluster manager and ingest nodes stay on demand.
+ */
+export interface NodeGroupSpotCapacityConfig {
+  readonly data?: SpotCapacityConfig,
+  readonly client?: SpotCapacityConfig,
+  readonly ml?: SpotCapacityConfig,
+}
+
+/**
+ * Bounds of a node group scaled by its step scaling policies, the group starts with minNodeCount nodes
+ * which defaults to the node count of the group
+ */
+export interface NodeGroupScalingConfig {
+  readonly minNodeCount?: number,
+  readonly maxNodeCount: number,
+}
+
+/**
+ * Scaling bounds per node group, the data group applies to every data tier. Groups without bounds keep their node count.
+ */
+export interface AutoScalingConfig {
+  readonly data?: NodeGroupScalingConfig,
+  readonly client?: NodeGroupScalingConfig,
+  readonly ml?: NodeGroupScalingConfig,
+  readonly ingest?: NodeGroupScalingConfig,
+}
+
+/**
+ * Notifications of the alarms of the cluster, sent to an existing SNS topic or to a topic created with the alarmEmails subscriptions
+ */
+export interface MonitoringConfig {
+  readonly alarmTopicArn?: string,
+  readonly alarmEmails?: string[],
+}
+
+/**
+ * Cluster specification that can be kept in a JSON or YAML file and loaded using the `clusterConfigFile` context key.
+ * Every field mirrors the context parameter of the same name, and a context parameter passed on the command line
+ * always takes precedence over the value in the file.
+ *
+ * Example configuration:
+ * ```
+ * version: 1
+ * distVersion: 2.3.0
+ * distributionUrl: https://artifacts.opensearch.org/releases/bundle/opensearch/2.3.0/opensearch-2.3.0-linux-x64.tar.gz
+ * securityDisabled: false
+ * minDistribution: false
+ * cpuArch: x64
+ * singleNodeCluster: false
+ * dataNodeCount: 3
+ * serverAccessType: ipv4
+ * restrictServerAccessTo: 10.10.10.10/32
+ * additionalConfig:
+ *   cluster.indices.replication.strategy: SEGMENT
+ * ```
+ */
+export interface ClusterConfig {
+  readonly version: number,
+  readonly distVersion?: string,
+  readonly securityDisabled?: boolean,
+  readonly minDistribution?: boolean,
+  readonly distributionUrl?: string,
+  readonly dashboardsUrl?: string,
+  readonly cpuArch?: string,
+  readonly singleNodeCluster?: boolean,
+  readonly serverAccessType?: string,
+  readonly restrictServerAccessTo?: string,
+  readonly vpcId?: string,
+  readonly securityGroupId?: string,
+  readonly cidr?: string,
+  readonly managerNodeCount?: number,
+  readonly dataNodeCount?: number,
+  readonly clientNodeCount?: number,
+  readonly ingestNodeCount?: number,
+  readonly mlNodeCount?: number,
+  readonly dataInstanceType?: string,
+  readonly mlInstanceType?: string,
+  readonly managerInstanceType?: string,
+  readonly clientInstanceType?: string,
+  readonly ingestInstanceType?: string,
+  readonly dataNodeStorage?: number,
+  readonly mlNodeStorage?: number,
+  readonly ingestNodeStorage?: number,
+  readonly storageVolumeType?: string,
+  readonly storageIops?: number,
+  readonly storageThroughput?: number,
+  readonly dataVolumeSize?: number,
+  readonly dataVolumeType?: string,
+  readonly dataVolumeIops?: number,
+  readonly dataVolumeThroughput?: number,
+  readonly useInstanceStore?: boolean,
+  readonly jvmSysProps?: string,
+  readonly additionalConfig?: string | object,
+  readonly additionalOsdConfig?: string | object,
+  readonly suffix?: string,
+  readonly networkStackSuffix?: string,
+  readonly use50PercentHeap?: boolean,
+  readonly memoryLock?: boolean,
+  readonly clusterHealthStatus?: string,
+  readonly clusterHealthTimeout?: number,
+  readonly isInternal?: boolean,
+  readonly zoneCount?: number,
+  readonly forceZoneAwareness?: boolean,
+  readonly enableRemoteStore?: boolean,
+  readonly remoteStore?: string | RemoteStoreConfig,
+  readonly greenDistributionUrl?: string,
+  readonly greenDistVersion?: string,
+  readonly greenDashboardsUrl?: string,
+  readonly greenCertificateArn?: string,
+  readonly snapshotRepository?: string | SnapshotRepositoryConfig,
+  readonly customRoleArn?: string,
+  readonly dataTiers?: string | DataTierConfig[],
+  readonly spotCapacity?: string | NodeGroupSpotCapacityConfig,
+  readonly autoScaling?: string | AutoScalingConfig,
+  readonly monitoring?: string | MonitoringConfig,
+  readonly logRetentionDays?: number,
+  readonly jsonLogs?: boolean,
+  readonly generateCertificates?: boolean,
+  readonly domainName?: string,
+  readonly hostedZoneId?: string,
+  readonly hostedZoneName?: string,
+  readonly certificateArn?: string,
+  readonly adminPasswordSecretArn?: string,
+  readonly internalUsers?: string | InternalUserConfig[],
+  readonly securityRoles?: string | SecurityRoleConfig[],
+}
+
+/**
+ * Values used for the optional count and storage parameters when neither the config file nor the context sets them
+ */
+export const clusterParameterDefaults = {
+  managerNodeCount: 3,
+  dataNodeCount: 2,
+  clientNodeCount: 0,
+  ingestNodeCount: 0,
+  mlNodeCount: 0,
+  dataNodeStorage: 100,
+  mlNodeStorage: 100,
+  ingestNodeStorage: 50,
+  // cluster health awaited by every node before it signals CloudFormation, and for how many minutes
+  clusterHealthStatus: 'green',
+  clusterHealthTimeout: 20,
+  // days the log events of the cluster are kept in CloudWatch Logs
+  logRetentionDays: 30,
+};
+
+type ClusterConfigFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// Known keys of a nested object, null for a key without nested keys. The '*' key stands for any key, e.g. the node groups of
+// spotCapacity, which are checked by the validator
+type NestedFields = { readonly [key: string]: NestedFields | null };
+
+type ConfigFields<T> = { readonly [key in keyof T]-?: NestedFields | null };
+
+interface ClusterConfigField {
+  readonly types: ClusterConfigFieldType[],
+  readonly allowedValues?: string[],
+  // expected value reported when a parameter cannot be narrowed to the types of the field, e.g. a non-negative integer
+  readonly description?: string,
+  // known keys of the object, or of the objects of the list, the unknown ones are reported with their path
+  readonly fields?: NestedFields,
+}
+
+/**
+ * Cluster parameters after merging the cluster config file with the context parameters.
+ * Values passed as context parameters are not coerced, e.g. `-c dataNodeCount=3` is still the string '3'.
+ */
+export type RawClusterParameters = { -readonly [key in keyof ClusterConfig]?: unknown };
+
+// Type of a narrowed field, the json string a field may be provided as is parsed
+type NarrowedField<T> = [Exclude<T, string>] extends [never] ? T : Exclude<T, string>;
+
+/**
+ * Cluster parameters narrowed to the types of the cluster config fields, see narrowClusterParameters
+ */
+export type ClusterParameters = { -readonly [key in keyof ClusterConfig]?: NarrowedField<NonNullable<ClusterConfig[key]>> };
+
+const dataTierFields: ConfigFields<DataTierConfig> = {
+  name: null,
+  nodeCount: null,
+  instanceType: null,
+  storage: null,
+  volumeType: null,
+  iops: null,
+  throughput: null,
+  roles: null,
+  dataVolumeSize: null,
+  dataVolumeType: null,
+  dataVolumeIops: null,
+  dataVolumeThroughput: null,
+  useInstanceStore: null,
+};
+
+const remoteStoreFields: ConfigFields<RemoteStoreConfig> = {
+  bucketArn: null,
+  removalPolicy: null,
+  basePath: null,
+  kmsKeyArn: null,
+  separateRepositories: null,
+  restoreFromStack: null,
+};
+
+const snapshotRetentionFields: ConfigFields<SnapshotRetentionConfig> = {
+  maxCount: null,
+  maxAge: null,
+  minCount: null,
+};
+
+const snapshotRepositoryFields: ConfigFields<SnapshotRepositoryConfig> = {
+  bucketArn: null,
+  basePath: null,
+  kmsKeyArn: null,
+  infrequentAccessDays: null,
+  schedule: null,
+  retention: snapshotRetentionFields,
+};
+
+const spotCapacityFields: ConfigFields<SpotCapacityConfig> = {
+  instanceTypes: null,
+  onDemandBaseCapacity: null,
+  onDemandPercentageAboveBaseCapacity: null,
+};
+
+const nodeGroupScalingFields: ConfigFields<NodeGroupScalingConfig> = {
+  minNodeCount: null,
+  maxNodeCount: null,
+};
+
+const monitoringFields: ConfigFields<MonitoringConfig> = {
+  alarmTopicArn: null,
+  alarmEmails: null,
+};
+
+const internalUserFields: ConfigFields<InternalUserConfig> = {
+  username: null,
+  hash: null,
+  backendRoles: null,
+  description: null,
+};
+
+const indexPermissionFields: ConfigFields<IndexPermissionConfig> = {
+  indexPatterns: null,
+  allowedActions: null,
+};
+
+const securityRoleFields: ConfigFields<SecurityRoleConfig> = {
+  name: null,
+  clusterPermissions: null,
+  indexPermissions: indexPermissionFields,
+  backendRoles: null,
+  users: null,
+};
+
+export const clusterConfigSchema: { [key in keyof ClusterConfig]-?: ClusterConfigField } = {
+  version: { types: ['number'] },
+  distVersion: { types: ['string'] },
+  securityDisabled: { types: ['boolean'] },
+  minDistribution: { types: ['boolean'] },
+  distributionUrl: { types: ['string'] },
+  dashboardsUrl: { types: ['string'] },
+  cpuArch: { types: ['string'], allowedValues: ['x64', 'arm64'] },
+  singleNodeCluster: { types: ['boolean'] },
+  serverAccessType: { types: ['string'], allowedValues: ['ipv4', 'ipv6', 'prefixList', 'securityGroupId'] },
+  restrictServerAccessTo: { types: ['string'] },
+  vpcId: { types: ['string'] },
+  securityGroupId: { types: ['string'] },
+  cidr: { types: ['string'] },
+  managerNodeCount: { types: ['number'], description: 'a non-negative integer' },
+  dataNodeCount: { types: ['number'], description: 'a non-negative integer' },
+  clientNodeCount: { types: ['number'], description: 'a non-negative integer' },
+  ingestNodeCount: { types: ['number'], description: 'a non-negative integer' },
+  mlNodeCount: { types: ['number'], description: 'a non-negative integer' },
+  dataInstanceType: { types: ['string'] },
+  mlInstanceType: { types: ['string'] },
+  managerInstanceType: { types: ['string'] },
+  clientInstanceType: { types: ['string'] },
+  ingestInstanceType: { types: ['string'] },
+  dataNodeStorage: { types: ['number'], description: 'a non-negative integer' },
+  mlNodeStorage: { types: ['number'], description: 'a non-negative integer' },
+  ingestNodeStorage: { types: ['number'], description: 'a non-negative integer' },
+  storageVolumeType: { types: ['string'], allowedValues: ['standard', 'gp2', 'gp3', 'io1', 'io2'] },
+  storageIops: { types: ['number'], description: 'a positive integer' },
+  storageThroughput: { types: ['number'], description: 'a positive integer' },
+  dataVolumeSize: { types: ['number'], description: 'a positive integer' },
+  dataVolumeType: { types: ['string'], allowedValues: ['gp2', 'gp3', 'io1', 'io2', 'st1', 'sc1'] },
+  dataVolumeIops: { types: ['number'], description: 'a positive integer' },
+  dataVolumeThroughput: { types: ['number'], description: 'a positive integer' },
+  useInstanceStore: { types: ['boolean'] },
+  jvmSysProps: { types: ['string'] },
+  additionalConfig: { types: ['string', 'object'], description: 'a map of settings' },
+  additionalOsdConfig: { types: ['string', 'object'], description: 'a map of settings' },
+  suffix: { types: ['string'] },
+  networkStackSuffix: { types: ['string'] },
+  use50PercentHeap: { types: ['boolean'] },
+  memoryLock: { types: ['boolean'] },
+  clusterHealthStatus: { types: ['string'], allowedValues: ['green', 'yellow'] },
+  clusterHealthTimeout: { types: ['number'] },
+  isInternal: { types: ['boolean'] },
+  zoneCount: { types: ['number'] },
+  forceZoneAwareness: { types: ['boolean'] },
+  enableRemoteStore: { types: ['boolean'] },
+  remoteStore: { types: ['string', 'object'], description: 'an object with the remote store settings', fields: remoteStoreFields },
+  greenDistributionUrl: { types: ['string'] },
+  greenDistVersion: { types: ['string'] },
+  greenDashboardsUrl: { types: ['string'] },
+  greenCertificateArn: { types: ['string'] },
+  snapshotRepository: { types: ['string', 'object'], description: 'an object with the repository settings', fields: snapshotRepositoryFields },
+  customRoleArn: { types: ['string'] },
+  dataTiers: { types: ['string', 'array'], description: 'a list of data tiers', fields: dataTierFields },
+  spotCapacity: {
+    types: ['string', 'object'],
+    description: 'an object with the spot capacity of the data, client, ml node groups',
+    fields: { '*': spotCapacityFields },
+  },
+  autoScaling: {
+    types: ['string', 'object'],
+    description: 'an object with the scaling bounds of the data, client, ml, ingest node groups',
+    fields: { '*': nodeGroupScalingFields },
+  },
+  monitoring: { types: ['string', 'object'], description: 'an object with the notifications of the alarms', fields: monitoringFields },
+  logRetentionDays: { types: ['number'] },
+  jsonLogs: { types: ['boolean'] },
+  generateCertificates: { types: ['boolean'] },
+  domainName: { types: ['string'] },
+  hostedZoneId: { types: ['string'] },
+  hostedZoneName: { types: ['string'] },
+  certificateArn: { types: ['string'] },
+  adminPasswordSecretArn: { types: ['string'] },
+  internalUsers: { types: ['string', 'array'], description: 'a list of internal users', fields: internalUserFields },
+  securityRoles: { types: ['string', 'array'], description: 'a list of security roles', fields: securityRoleFields },
+};
+
+const getFieldType = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return typeof value;
+};
+
+const clusterConfigFields: { [key: string]: ClusterConfigField | undefined } = clusterConfigSchema;
+
+/**
+ * Validates a parsed cluster config file against the schema and returns one error message per invalid field
+ */
+export const validateClusterConfig = (config: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return [`The cluster config file must contain an object, found ${getFieldType(config)}`];
+  }
+  const fields: { [key: string]: unknown } = { ...config };
+
+  if (fields.version === undefined) {
+    errors.push(`version: field is required, the supported version is ${CLUSTER_CONFIG_VERSION}`);
+  } else if (fields.version !== CLUSTER_CONFIG_VERSION) {
+    errors.push(`version: unsupported version ${JSON.stringify(fields.version)}, the supported version is ${CLUSTER_CONFIG_VERSION}`);
+  }
+
+  Object.entries(fields).forEach(([key, value]) => {
+    const field = clusterConfigFields[key];
+    if (field === undefined) {
+      errors.push(`${key}: unknown field`);
+    } else if (!(<string[]>field.types).includes(getFieldType(value))) {
+      errors.push(`${key}: expected ${field.types.join(' or ')} but found ${getFieldType(value)}`);
+    } else if (field.allowedValues !== undefined && !field.allowedValues.includes(`${value}`)) {
+      errors.push(`${key}: invalid value ${JSON.stringify(value)}, allowed values are ${field.allowedValues.join(', ')}`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Narrows a parameter to the types of its field. Context parameters are strings, so numbers and booleans are parsed from them,
+ * and the objects and lists are provided as json strings either in the context or in the config file.
+ */
+const narrowParameter = (key: string, field: ClusterConfigField, value: unknown): unknown => {
+  const jsonTypes = field.types.filter((type) => type === 'object' || type === 'array');
+  const expectedTypes: string[] = (jsonTypes.length > 0) ? jsonTypes : field.types;
+  let narrowed = value;
+  if (typeof value === 'string' && jsonTypes.length > 0) {
+    try {
+      narrowed = JSON.parse(value);
+    } catch (e) {
+      throw new Error(`Encountered following error while parsing ${key} json parameter: ${e}`);
+    }
+  } else if (typeof value === 'string' && field.types.includes('number') && /^-?[0-9]+(\.[0-9]+)?$/.test(value)) {
+    narrowed = Number(value);
+  } else if (typeof value === 'string' && field.types.includes('boolean') && (value === 'true' || value === 'false')) {
+    narrowed = value === 'true';
+  } else if ((typeof value === 'number' || typeof value === 'boolean') && field.types.includes('string')) {
+    narrowed = `${value}`;
+  }
+
+  if (!expectedTypes.includes(getFieldType(narrowed))) {
+    if (field.types.includes('boolean')) {
+      throw new Error('parameter is required to be set as - true or false');
+    }
+    throw new Error(`expected ${field.description ?? field.types.join(' or ')} but found ${JSON.stringify(narrowed)}`);
+  }
+  return narrowed;
+};
+
+/**
+ * Returns the paths of the keys of a nested object, or of the objects of a nested list, missing from its known fields.
+ * Values of another type are left to the validator.
+ */
+const findUnknownFields = (path: string, value: unknown, fields: NestedFields): string[] => {
+  if (Array.isArray(value)) {
+    return value.reduce((paths: string[], item, index) => paths.concat(findUnknownFields(`${path}[${index}]`, item, fields)), []);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+  return Object.entries(value).reduce((paths: string[], [key, item]) => {
+    const nestedFields = fields['*'] ?? fields[key];
+    if (nestedFields === undefined) {
+      return paths.concat(`${path}.${key}`);
+    }
+    return (nestedFields === null) ? paths : paths.concat(findUnknownFields(`${path}.${key}`, item, nestedFields));
+  }, []);
+};
+
+/**
+ * Narrows the merged cluster parameters to the types of the cluster config fields, every parameter which cannot be narrowed
+ * is reported and left out, along with the unknown keys of its nested objects. The string 'undefined' stands for an unset parameter.
+ */
+export const narrowClusterParameters = (rawParams: RawClusterParameters): { parameters: ClusterParameters, errors: string[] } => {
+  const parameters: { [key: string]: unknown } = {};
+  const errors: string[] = [];
+  Object.entries(rawParams).forEach(([key, value]) => {
+    const field = clusterConfigFields[key];
+    if (field === undefined || value === undefined || `${value}` === 'undefined') {
+      return;
+    }
+    try {
+      parameters[key] = narrowParameter(key, field, value);
+    } catch (e) {
+      errors.push(`${key}: ${e.message}`);
+      return;
+    }
+    if (field.fields !== undefined) {
+      findUnknownFields(key, parameters[key], field.fields).forEach((path) => errors.push(`${path}: unknown field`));
+    }
+  });
+  return { parameters: <ClusterParameters>parameters, errors };
+};
+
+/**
+ * Merges the root volume fields of a data tier with the cluster wide parameters.
+ * IOPS and throughput belong to a volume type, so they are only inherited when the tier keeps the cluster wide volume type.
+ */
+export const getDataTierRootVolume = (tier: DataTierConfig, params: ClusterParameters) => {
+  const keepsVolumeType = tier.volumeType === undefined;
+  return {
+    storage: tier.storage ?? params.dataNodeStorage,
+    volumeType: tier.volumeType ?? params.storageVolumeType,
+    iops: tier.iops ?? (keepsVolumeType ? params.storageIops : undefined),
+    throughput: tier.throughput ?? (keepsVolumeType ? params.storageThroughput : undefined),
+  };
+};
+
+/**
+ * Merges the data volume and instance store fields of a data tier with the cluster wide parameters, following the same rules.
+ */
+export const getDataTierStorage = (tier: DataTierConfig, params: ClusterParameters) => {
+  const keepsVolumeType = tier.dataVolumeType === undefined;
+  return {
+    dataVolumeSize: tier.dataVolumeSize ?? params.dataVolumeSize,
+    dataVolumeType: tier.dataVolumeType ?? params.dataVolumeType,
+    dataVolumeIops: tier.dataVolumeIops ?? (keepsVolumeType ? params.dataVolumeIops : undefined),
+    dataVolumeThroughput: tier.dataVolumeThroughput ?? (keepsVolumeType ? params.dataVolumeThroughput : undefined),
+    useInstanceStore: tier.useInstanceStore ?? params.useInstanceStore,
+  };
+};
+
+/**
+ * Reads a JSON or YAML cluster config file and throws a single error listing every invalid field
+ */
+export const loadClusterConfigFile = (filePath: string): ClusterConfig => {
+  const absolutePath = resolve(filePath);
+  if (!existsSync(absolutePath)) {
+    throw new Error(`Cluster config file ${absolutePath} does not exist`);
+  }
+
+  let config: unknown;
+  try {
+    // YAML is a superset of JSON, so the same loader handles both formats
+    config = load(readFileSync(absolutePath, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Encountered following error while parsing cluster config file ${absolutePath}: ${e}`);
+  }
+
+  const errors = validateClusterConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid cluster config file ${absolutePath}:\n${errors.join('\n')}`);
+  }
+  return <ClusterConfig>config;
+};
+
+/**
+ * Merges the cluster config file (if `clusterConfigFile` is set) with the context parameters.
+ * Context parameters override the corresponding field from the file.
+ */
+export const resolveClusterParameters = (scope: Construct): RawClusterParameters => {
+  const configFile = scope.node.tryGetContext('clusterConfigFile');
+  const fileConfig: RawClusterParameters = (configFile === undefined) ? {} : loadClusterConfigFile(`${configFile}`);
+
+  const parameters: RawClusterParameters = {};
+  (<(keyof ClusterConfig)[]>Object.keys(clusterConfigSchema)).forEach((key) => {
+    const value = scope.node.tryGetContext(key) ?? fileConfig[key];
+    if (value !== undefined) {
+      parameters[key] = value;
+    }
+  });
+  return parameters;
+};
@@ -0,0 +1,794 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import {
+  InstanceArchitecture, getCatalogFamilies, getCatalogInstanceType, getInstanceSpec,
+} from '../opensearch-config/instance-catalog';
+import {
+  computeNodeStorage, getDataVolumeType, getVolumeType, validateVolumeIops, validateVolumeSize, validateVolumeThroughput,
+} from '../opensearch-config/node-config';
+import { reservedRoleNames, reservedUsernames } from '../opensearch-config/security-config';
+import {
+  ClusterConfig, ClusterParameters, clusterParameterDefaults, getDataTierRootVolume, getDataTierStorage, narrowClusterParameters,
+  NodeGroupScalingConfig, RawClusterParameters, SpotCapacityConfig,
+} from './cluster-config';
+
+export interface ClusterValidationResult {
+  // the parameters narrowed to the types of the cluster config fields, the invalid ones left out
+  readonly parameters: ClusterParameters,
+  readonly errors: string[],
+  readonly warnings: string[],
+}
+
+// The fields of the json parameters are not narrowed, e.g. numbers may still be passed as strings in the json context value
+const isDefined = (value: unknown) => value !== undefined && `${value}` !== 'undefined';
+
+const isBooleanValue = (value: unknown) => `${value}` === 'true' || `${value}` === 'false';
+
+// Instance type parameters of the node groups
+const instanceTypeKeys: ('dataInstanceType' | 'mlInstanceType' | 'managerInstanceType' | 'clientInstanceType' | 'ingestInstanceType')[] = [
+  'dataInstanceType', 'mlInstanceType', 'managerInstanceType', 'clientInstanceType', 'ingestInstanceType'];
+
+// Node count and root volume size parameters, which default to clusterParameterDefaults
+type CountKey = 'managerNodeCount' | 'dataNodeCount' | 'clientNodeCount' | 'ingestNodeCount' | 'mlNodeCount' | 'dataNodeStorage'
+  | 'mlNodeStorage' | 'ingestNodeStorage';
+const countKeys: CountKey[] = ['managerNodeCount', 'dataNodeCount', 'clientNodeCount', 'ingestNodeCount', 'mlNodeCount',
+  'dataNodeStorage', 'mlNodeStorage', 'ingestNodeStorage'];
+
+// Minutes, the signal timeout of CloudFormation cannot exceed 12 hours including the installation of the nodes
+const maxClusterHealthTimeout = 600;
+
+// Retention periods accepted by CloudWatch Logs, in days
+const logRetentionDays = Object.values(RetentionDays).filter((days) => typeof days === 'number' && days !== RetentionDays.INFINITE);
+
+// Availability zones of the largest regions
+const maxZoneCount = 6;
+
+const bucketArnPattern = /^arn:aws[a-z-]*:s3:::[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+
+const kmsKeyArnPattern = /^arn:aws[a-z-]*:kms:[a-z0-9-]+:[0-9]{12}:key\/.+$/;
+
+const topicArnPattern = /^arn:aws[a-z-]*:sns:[a-z0-9-]+:[0-9]{12}:[A-Za-z0-9_-]{1,256}(\.fifo)?$/;
+
+const emailPattern = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// S3 prefix without leading or trailing slash
+const basePathPattern = /^[^/]+(\/[^/]+)*$/;
+
+// Days, S3 does not transition objects to Standard-IA earlier
+const minInfrequentAccessDays = 30;
+
+// Instance types of a mixed instances policy, the instance type of the node group included
+const maxMixedInstanceTypes = 40;
+
+// Node groups which can launch spot instances
+const spotNodeGroups = ['data', 'client', 'ml'];
+
+// Node groups which can scale, the cluster manager nodes keep their count
+const scalingNodeGroups = ['data', 'client', 'ml', 'ingest'];
+
+// Data tier roles and the OpenSearch version introducing them
+const dataTierRoles = new Map<string, number[]>([
+  ['data', [1, 0]],
+  ['ingest', [1, 0]],
+  ['search', [2, 4]],
+  ['warm', [3, 0]],
+]);
+
+const isVersionBefore = (version: string, minimum: number[]) => {
+  const [major, minor] = version.split('.').map((v) => parseInt(v, 10));
+  if (Number.isNaN(major)) {
+    return false;
+  }
+  return major < minimum[0] || (major === minimum[0] && (Number.isNaN(minor) || minor < minimum[1]));
+};
+
+const collectError = (errors: string[], key: string, validate: () => void, context?: string) => {
+  try {
+    validate();
+  } catch (e) {
+    errors.push((context === undefined) ? `${key}: ${e.message}` : `${key}: ${e.message} (${context})`);
+  }
+};
+
+const toPositiveInteger = (value: unknown) => (/^[1-9][0-9]*$/.test(`${value}`) ? parseInt(`${value}`, 10) : undefined);
+
+type DataStorageKey = 'dataVolumeSize' | 'dataVolumeType' | 'dataVolumeIops' | 'dataVolumeThroughput' | 'useInstanceStore';
+
+const dataStorageKeys: DataStorageKey[] = ['dataVolumeSize', 'dataVolumeType', 'dataVolumeIops', 'dataVolumeThroughput', 'useInstanceStore'];
+
+interface VolumeKeys {
+  readonly size: string,
+  readonly iops: string,
+  readonly throughput: string,
+}
+
+interface RootVolume {
+  readonly sizeKey: string,
+  readonly size: number,
+  readonly nodes: string,
+}
+
+/**
+ * Validates the IOPS and throughput of an EBS volume against the ranges of its volume type and its size.
+ * Values which are not positive integers are reported by the caller and skipped here.
+ */
+const validateVolume = (errors: string[], keys: VolumeKeys, volumeType: string, size: number | undefined, iops: number | undefined,
+  throughput: number | undefined, isSingleNode: boolean, context?: string) => {
+  const sizeValue = toPositiveInteger(size);
+  const iopsValue = toPositiveInteger(iops);
+  const throughputValue = toPositiveInteger(throughput);
+  if ((isDefined(iops) && iopsValue === undefined) || (isDefined(throughput) && throughputValue === undefined)) {
+    return;
+  }
+  if (sizeValue !== undefined) {
+    collectError(errors, keys.iops, () => validateVolumeIops(volumeType, sizeValue, iopsValue), context);
+  }
+  collectError(errors, keys.throughput, () => {
+    validateVolumeThroughput(volumeType, iopsValue, throughputValue);
+    if (isSingleNode && throughputValue !== undefined) {
+      // the EC2 instance of a single node cluster has no throughput property for its block devices
+      throw new Error('provisioned throughput is not supported on single node clusters');
+    }
+  }, context);
+};
+
+type DataStorageParameters = Pick<ClusterParameters, DataStorageKey>;
+
+/**
+ * Validates the data volume and instance store parameters, either cluster wide or of a single data tier
+ */
+const validateDataStorage = (errors: string[], keyPrefix: string, storage: DataStorageParameters, instanceType: string | undefined,
+  isSingleNode: boolean, checkInstanceStore: boolean) => {
+  dataStorageKeys.filter((key) => key !== 'dataVolumeType' && key !== 'useInstanceStore').forEach((key) => {
+    const value = storage[key];
+    if (isDefined(value) && !/^[1-9][0-9]*$/.test(`${value}`)) {
+      errors.push(`${keyPrefix}${key}: expected a positive integer but found ${JSON.stringify(value)}`);
+    }
+  });
+
+  if (isDefined(storage.dataVolumeSize)) {
+    const dataVolumeType = isDefined(storage.dataVolumeType) ? `${storage.dataVolumeType}` : 'gp3';
+    try {
+      getDataVolumeType(dataVolumeType);
+      const size = toPositiveInteger(storage.dataVolumeSize);
+      if (size !== undefined) {
+        collectError(errors, `${keyPrefix}dataVolumeSize`, () => validateVolumeSize(dataVolumeType, size));
+      }
+      validateVolume(errors, {
+        size: `${keyPrefix}dataVolumeSize`,
+        iops: `${keyPrefix}dataVolumeIops`,
+        throughput: `${keyPrefix}dataVolumeThroughput`,
+      }, dataVolumeType, storage.dataVolumeSize, storage.dataVolumeIops, storage.dataVolumeThroughput, isSingleNode);
+    } catch (e) {
+      errors.push(`${keyPrefix}dataVolumeType: ${e.message}`);
+    }
+  } else {
+    dataStorageKeys.filter((key) => key !== 'dataVolumeSize' && key !== 'useInstanceStore').forEach((key) => {
+      if (isDefined(storage[key])) {
+        errors.push(`${keyPrefix}${key}: parameter requires dataVolumeSize to be set`);
+      }
+    });
+  }
+
+  if (isDefined(storage.useInstanceStore)) {
+    if (!isBooleanValue(storage.useInstanceStore)) {
+      errors.push(`${keyPrefix}useInstanceStore: parameter is required to be set as - true or false`);
+    } else if (`${storage.useInstanceStore}` === 'true' && checkInstanceStore) {
+      let localNvme = false;
+      try {
+        localNvme = instanceType !== undefined && getInstanceSpec(instanceType).localNvme;
+      } catch (e) {
+        // invalid instance types are already reported as errors
+      }
+      if (!localNvme) {
+        errors.push(`${keyPrefix}useInstanceStore: ${instanceType ?? 'the default instance type'} has no NVMe instance store volumes`);
+      }
+    }
+  }
+};
+
+/**
+ * Validates the merged cluster parameters before any stack is synthesized.
+ * All the problems are collected instead of failing on the first one, errors block the deployment while
+ * warnings flag configurations that synthesize fine but are unlikely to behave as intended.
+ */
+export const validateClusterParameters = (rawParams: RawClusterParameters): ClusterValidationResult => {
+  const { parameters: params, errors } = narrowClusterParameters(rawParams);
+  const warnings: string[] = [];
+  // parameters which cannot be narrowed are already reported, the other ones left out are unset
+  const isUnset = (key: keyof ClusterConfig) => !isDefined(rawParams[key]);
+
+  if (isUnset('distVersion')) {
+    errors.push('distVersion: Please provide the OS distribution version');
+  }
+  if (isUnset('securityDisabled')) {
+    errors.push('securityDisabled: parameter is required to be set as - true or false');
+  }
+  if (isUnset('minDistribution')) {
+    errors.push('minDistribution: parameter is required to be set as - true or false');
+  }
+  if (isUnset('distributionUrl')) {
+    errors.push('distributionUrl: parameter is required. Please provide the artifact url to download');
+  }
+
+  const cpuArch = `${params.cpuArch}`;
+  if (isUnset('cpuArch')) {
+    errors.push('cpuArch: parameter is required. The provided value should be either x64 or arm64, any other value is invalid');
+  } else if (cpuArch !== 'x64' && cpuArch !== 'arm64') {
+    errors.push('cpuArch: Please provide a valid cpu architecture. The valid value can be either x64 or arm64');
+  } else {
+    instanceTypeKeys.forEach((key) => {
+      const instanceType = params[key];
+      if (instanceType !== undefined) {
+        collectError(errors, key, () => getCatalogInstanceType(instanceType, cpuArch));
+      }
+    });
+  }
+
+  const counts: { [key: string]: number } = {};
+  countKeys.forEach((key) => {
+    const value = params[key];
+    if (value === undefined) {
+      if (isUnset(key)) {
+        counts[key] = clusterParameterDefaults[key];
+      }
+    } else if (!Number.isInteger(value) || value < 0) {
+      errors.push(`${key}: expected a non-negative integer but found ${JSON.stringify(value)}`);
+    } else {
+      counts[key] = value;
+    }
+  });
+
+  const storagePerformanceKeys: ('storageIops' | 'storageThroughput')[] = ['storageIops', 'storageThroughput'];
+  storagePerformanceKeys.forEach((key) => {
+    const value = params[key];
+    if (value !== undefined && toPositiveInteger(value) === undefined) {
+      errors.push(`${key}: expected a positive integer but found ${JSON.stringify(value)}`);
+    }
+  });
+
+  if (params.clusterHealthStatus !== undefined && !['green', 'yellow'].includes(params.clusterHealthStatus)) {
+    errors.push(`clusterHealthStatus: expected green or yellow but found ${JSON.stringify(params.clusterHealthStatus)}`);
+  }
+  if (params.clusterHealthTimeout !== undefined) {
+    const healthTimeout = toPositiveInteger(params.clusterHealthTimeout);
+    if (healthTimeout === undefined || healthTimeout > maxClusterHealthTimeout) {
+      errors.push(`clusterHealthTimeout: expected a number of minutes between 1 and ${maxClusterHealthTimeout} `
+        + `but found ${JSON.stringify(params.clusterHealthTimeout)}`);
+    }
+  }
+
+  if (params.logRetentionDays !== undefined && !logRetentionDays.includes(toPositiveInteger(params.logRetentionDays) ?? 0)) {
+    errors.push(`logRetentionDays: expected one of ${logRetentionDays.join(', ')} but found ${JSON.stringify(params.logRetentionDays)}`);
+  }
+
+  // root volumes use gp2 by default
+  let storageVolumeType: string | undefined = params.storageVolumeType ?? 'gp2';
+  try {
+    getVolumeType(storageVolumeType);
+  } catch (e) {
+    errors.push(`storageVolumeType: ${e.message}`);
+    storageVolumeType = undefined;
+  }
+
+  const isSingleNode = params.singleNodeCluster === true;
+  const { dataInstanceType } = params;
+  const dataTiers = params.dataTiers ?? [];
+  // with data tiers the instance store is checked against the instance type of each tier
+  validateDataStorage(errors, '', params, dataInstanceType, isSingleNode, params.dataTiers === undefined);
+
+  const dataTierCount = dataTiers.length;
+  const tierNames: string[] = [];
+  dataTiers.forEach((tier, index) => {
+    const tierKey = `dataTiers[${index}]`;
+    if (!/^[a-z][a-z0-9]*$/.test(`${tier.name}`)) {
+      errors.push(`${tierKey}.name: expected a lowercase alphanumeric name but found ${JSON.stringify(tier.name)}`);
+    } else if (tierNames.includes(tier.name)) {
+      errors.push(`${tierKey}.name: duplicate data tier ${tier.name}`);
+    }
+    tierNames.push(tier.name);
+    if (!/^[1-9][0-9]*$/.test(`${tier.nodeCount}`)) {
+      errors.push(`${tierKey}.nodeCount: expected a positive integer but found ${JSON.stringify(tier.nodeCount)}`);
+    }
+    if (tier.storage !== undefined && !/^[1-9][0-9]*$/.test(`${tier.storage}`)) {
+      errors.push(`${tierKey}.storage: expected a positive integer but found ${JSON.stringify(tier.storage)}`);
+    }
+    if (tier.instanceType !== undefined && (cpuArch === 'x64' || cpuArch === 'arm64')) {
+      collectError(errors, `${tierKey}.instanceType`, () => getCatalogInstanceType(`${tier.instanceType}`, cpuArch));
+    }
+    const tierPerformanceKeys: ('iops' | 'throughput')[] = ['iops', 'throughput'];
+    tierPerformanceKeys.forEach((key) => {
+      if (tier[key] !== undefined && toPositiveInteger(tier[key]) === undefined) {
+        errors.push(`${tierKey}.${key}: expected a positive integer but found ${JSON.stringify(tier[key])}`);
+      }
+    });
+    const tierVolume = getDataTierRootVolume(tier, params);
+    const tierSize = toPositiveInteger(tierVolume.storage ?? clusterParameterDefaults.dataNodeStorage);
+    try {
+      const tierVolumeType = `${tierVolume.volumeType ?? storageVolumeType}`;
+      getVolumeType(tierVolumeType);
+      if (tierSize !== undefined) {
+        collectError(errors, `${tierKey}.storage`, () => validateVolumeSize(tierVolumeType, tierSize));
+      }
+      validateVolume(errors, {
+        size: `${tierKey}.storage`,
+        iops: (tier.iops === undefined && tier.volumeType === undefined) ? 'storageIops' : `${tierKey}.iops`,
+        throughput: (tier.throughput === undefined && tier.volumeType === undefined) ? 'storageThroughput' : `${tierKey}.throughput`,
+      }, tierVolumeType, tierSize, tierVolume.iops, tierVolume.throughput, isSingleNode, `root volume of the ${tier.name} tier`);
+    } catch (e) {
+      // an invalid cluster wide volume type is reported once
+      if (tier.volumeType !== undefined) {
+        errors.push(`${tierKey}.volumeType: ${e.message}`);
+      }
+    }
+    const tierStorage = getDataTierStorage(tier, params);
+    // cluster wide values are already validated, only tiers overriding them or using the instance store are checked again
+    if (dataStorageKeys.some((key) => tier[key] !== undefined) || `${tierStorage.useInstanceStore}` === 'true') {
+      validateDataStorage(errors, `${tierKey}.`, tierStorage, tier.instanceType ?? dataInstanceType, isSingleNode, true);
+    }
+    if (tier.roles !== undefined) {
+      if (!Array.isArray(tier.roles) || tier.roles.length === 0) {
+        errors.push(`${tierKey}.roles: expected a non-empty list of roles`);
+      } else {
+        tier.roles.forEach((role) => {
+          const minimumVersion = dataTierRoles.get(role);
+          if (minimumVersion === undefined) {
+            errors.push(`${tierKey}.roles: invalid role ${role}, allowed roles are ${Array.from(dataTierRoles.keys()).join(', ')}`);
+          } else if (params.distVersion !== undefined && isVersionBefore(params.distVersion, minimumVersion)) {
+            errors.push(`${tierKey}.roles: the ${role} role requires OpenSearch ${minimumVersion.join('.')} or later`);
+          }
+        });
+      }
+    }
+  });
+
+  if (storageVolumeType !== undefined) {
+    const rootVolumes: RootVolume[] = [];
+    const addRootVolume = (sizeKey: string, size: number | undefined, nodes: string) => {
+      if (size !== undefined) {
+        rootVolumes.push({ sizeKey, size, nodes });
+      }
+    };
+    if (isSingleNode) {
+      addRootVolume('dataNodeStorage', counts.dataNodeStorage, 'the single node');
+    } else {
+      if (counts.managerNodeCount !== 0) {
+        addRootVolume('storageVolumeType', computeNodeStorage, 'the cluster manager nodes');
+      }
+      if (dataTierCount === 0 || counts.managerNodeCount === 0) {
+        addRootVolume('dataNodeStorage', counts.dataNodeStorage, 'the data nodes');
+      }
+      if (counts.clientNodeCount > 0) {
+        addRootVolume('storageVolumeType', computeNodeStorage, 'the client nodes');
+      }
+      if (counts.mlNodeCount > 0) {
+        addRootVolume('mlNodeStorage', counts.mlNodeStorage, 'the ml nodes');
+      }
+      if (counts.ingestNodeCount > 0) {
+        addRootVolume('ingestNodeStorage', counts.ingestNodeStorage, 'the ingest nodes');
+      }
+    }
+    const rootVolumeType = storageVolumeType;
+    rootVolumes.forEach((volume) => collectError(errors, volume.sizeKey, () => validateVolumeSize(rootVolumeType, volume.size),
+      `root volume of ${volume.nodes}`));
+    if (rootVolumes.length > 0) {
+      // IOPS are applied to the root volume of every node group, the IOPS per GiB ratio is bound by the smallest one
+      const smallest = rootVolumes.reduce((a, b) => ((b.size < a.size) ? b : a));
+      validateVolume(errors, { size: smallest.sizeKey, iops: 'storageIops', throughput: 'storageThroughput' }, rootVolumeType,
+        smallest.size, params.storageIops, params.storageThroughput, isSingleNode, `root volume of ${smallest.nodes}`);
+    }
+  }
+
+  const zoneCount = toPositiveInteger(params.zoneCount);
+  if (params.zoneCount !== undefined) {
+    if (zoneCount === undefined || zoneCount > maxZoneCount) {
+      errors.push(`zoneCount: expected a number of availability zones between 1 and ${maxZoneCount} but found ${JSON.stringify(params.zoneCount)}`);
+    } else if (isSingleNode && zoneCount > 1) {
+      errors.push('zoneCount: a single node cluster runs in a single availability zone');
+    } else if (!isSingleNode && counts.managerNodeCount > zoneCount) {
+      errors.push(`managerNodeCount: the cluster manager nodes are spread one per availability zone, ${counts.managerNodeCount} nodes `
+        + `require a zoneCount of at least ${counts.managerNodeCount} but found ${zoneCount}`);
+    }
+  }
+  if (params.forceZoneAwareness === true && (zoneCount === undefined || zoneCount < 2)) {
+    errors.push('forceZoneAwareness: forced awareness requires a zoneCount of at least 2');
+  }
+
+  if (!isSingleNode) {
+    const { managerNodeCount, dataNodeCount, mlNodeCount } = counts;
+    if (dataTierCount > 0 && managerNodeCount === 0) {
+      errors.push('dataTiers: data tiers require dedicated cluster manager nodes, managerNodeCount cannot be 0');
+    }
+    if (dataTierCount === 0 && dataNodeCount === 0) {
+      errors.push('dataNodeCount: a multi-node cluster requires at least one data node');
+    }
+    if (managerNodeCount !== undefined && managerNodeCount > 0 && managerNodeCount % 2 === 0) {
+      warnings.push(`managerNodeCount: an even number of cluster manager nodes (${managerNodeCount}) tolerates no more failures `
+        + `than ${managerNodeCount - 1} nodes, use an odd number of cluster manager nodes`);
+    }
+    if (managerNodeCount !== undefined && managerNodeCount <= 1) {
+      warnings.push('managerNodeCount: the seed node is the only cluster manager eligible node, stack updates keep it since '
+        + 'replacing it loses the cluster state, use at least 3 cluster manager nodes for rolling updates of the whole cluster');
+    }
+    if (mlNodeCount !== undefined && mlNodeCount > 0 && (cpuArch === 'x64' || cpuArch === 'arm64')) {
+      let hasAccelerator = false;
+      try {
+        hasAccelerator = params.mlInstanceType !== undefined && getInstanceSpec(params.mlInstanceType).accelerator !== undefined;
+      } catch (e) {
+        // invalid instance types are already reported as errors
+      }
+      if (!hasAccelerator) {
+        const mlInstanceType = params.mlInstanceType ?? 'the default instance type';
+        warnings.push(`mlInstanceType: ML nodes will run on ${mlInstanceType} which has no GPU or Inferentia accelerator, `
+          + `consider one of the following families: ${getCatalogFamilies(<InstanceArchitecture>cpuArch, true)}`);
+      }
+    }
+  }
+
+  collectError(errors, 'spotCapacity', () => {
+    if (params.spotCapacity === undefined) {
+      return;
+    }
+    if (isSingleNode) {
+      throw new Error('a single node cluster runs on an on-demand instance');
+    }
+    const spotCapacity: [string, SpotCapacityConfig | undefined][] = Object.entries(params.spotCapacity);
+    spotCapacity.forEach(([group, groupCapacity]) => {
+      const groupKey = `spotCapacity.${group}`;
+      if (!spotNodeGroups.includes(group)) {
+        errors.push(`${groupKey}: only the ${spotNodeGroups.join(', ')} node groups can use spot capacity`);
+        return;
+      }
+      if ((group === 'client' && counts.clientNodeCount === 0) || (group === 'ml' && counts.mlNodeCount === 0)) {
+        errors.push(`${groupKey}: the cluster has no ${group} nodes`);
+        return;
+      }
+      if (typeof groupCapacity !== 'object' || groupCapacity === null || Array.isArray(groupCapacity)) {
+        errors.push(`${groupKey}: expected an object with the spot capacity of the ${group} node group`);
+        return;
+      }
+      const { onDemandBaseCapacity } = groupCapacity;
+      if (onDemandBaseCapacity !== undefined && !/^[0-9]+$/.test(`${onDemandBaseCapacity}`)) {
+        errors.push(`${groupKey}.onDemandBaseCapacity: expected a non-negative integer but found ${JSON.stringify(onDemandBaseCapacity)}`);
+      }
+      const onDemandPercentage = groupCapacity.onDemandPercentageAboveBaseCapacity;
+      if (onDemandPercentage !== undefined && !(/^[0-9]+$/.test(`${onDemandPercentage}`) && parseInt(`${onDemandPercentage}`, 10) <= 100)) {
+        errors.push(`${groupKey}.onDemandPercentageAboveBaseCapacity: expected a percentage between 0 and 100 but found ${JSON.stringify(onDemandPercentage)}`);
+      }
+      const { instanceTypes } = groupCapacity;
+      if (instanceTypes === undefined) {
+        return;
+      }
+      if (!Array.isArray(instanceTypes)) {
+        errors.push(`${groupKey}.instanceTypes: expected a list of instance types`);
+        return;
+      }
+      if (instanceTypes.length >= maxMixedInstanceTypes) {
+        errors.push(`${groupKey}.instanceTypes: a mixed instances policy has at most ${maxMixedInstanceTypes} instance types `
+          + 'including the instance type of the node group');
+      }
+      if (cpuArch !== 'x64' && cpuArch !== 'arm64') {
+        return;
+      }
+      // the additional instance types replace the instance type of the group, they must provide the same hardware to the nodes
+      const usesInstanceStore = group === 'data' && (params.useInstanceStore === true
+        || dataTiers.some((tier) => `${tier.useInstanceStore}` === 'true'));
+      let accelerator: string | undefined;
+      try {
+        accelerator = (group === 'ml' && params.mlInstanceType !== undefined) ? getInstanceSpec(params.mlInstanceType).accelerator : undefined;
+      } catch (e) {
+        // invalid instance types are already reported as errors
+      }
+      instanceTypes.forEach((instanceType, index) => {
+        const instanceTypeKey = `${groupKey}.instanceTypes[${index}]`;
+        if (instanceTypes.indexOf(instanceType) !== index) {
+          errors.push(`${instanceTypeKey}: duplicate instance type ${instanceType}`);
+          return;
+        }
+        try {
+          getCatalogInstanceType(`${instanceType}`, cpuArch);
+          const spec = getInstanceSpec(`${instanceType}`);
+          if (usesInstanceStore && !spec.localNvme) {
+            errors.push(`${instanceTypeKey}: ${instanceType} has no NVMe instance store volumes, which the data nodes use`);
+          }
+          if (accelerator !== undefined && spec.accelerator !== accelerator) {
+            errors.push(`${instanceTypeKey}: ${instanceType} has no ${accelerator} accelerator like ${params.mlInstanceType}`);
+          }
+        } catch (e) {
+          errors.push(`${instanceTypeKey}: ${e.message}`);
+        }
+      });
+    });
+  });
+
+  collectError(errors, 'autoScaling', () => {
+    if (params.autoScaling === undefined) {
+      return;
+    }
+    if (isSingleNode) {
+      throw new Error('a single node cluster cannot scale');
+    }
+    const autoScaling: [string, NodeGroupScalingConfig | undefined][] = Object.entries(params.autoScaling);
+    autoScaling.forEach(([group, groupScaling]) => {
+      const groupKey = `autoScaling.${group}`;
+      if (!scalingNodeGroups.includes(group)) {
+        errors.push(`${groupKey}: only the ${scalingNodeGroups.join(', ')} node groups can scale`);
+        return;
+      }
+      // node counts of the groups, the seed node is part of the data nodes without cluster manager nodes
+      let nodeCounts: number[];
+      if (group === 'data') {
+        nodeCounts = (dataTierCount > 0) ? dataTiers.map((tier) => parseInt(`${tier.nodeCount}`, 10))
+          : [(counts.managerNodeCount === 0) ? counts.dataNodeCount - 1 : counts.dataNodeCount];
+      } else {
+        nodeCounts = [counts[`${group}NodeCount`]];
+      }
+      if (nodeCounts.some((nodeCount) => nodeCount === 0)) {
+        errors.push(`${groupKey}: the cluster has no ${group} node group`);
+        return;
+      }
+      if (typeof groupScaling !== 'object' || groupScaling === null || Array.isArray(groupScaling)) {
+        errors.push(`${groupKey}: expected an object with the scaling bounds of the ${group} node group`);
+        return;
+      }
+      const minNodeCount = toPositiveInteger(groupScaling.minNodeCount);
+      const maxNodeCount = toPositiveInteger(groupScaling.maxNodeCount);
+      const dataTierScaling = group === 'data' && dataTierCount > 0;
+      if (groupScaling.minNodeCount !== undefined && minNodeCount === undefined) {
+        errors.push(`${groupKey}.minNodeCount: expected a positive integer but found ${JSON.stringify(groupScaling.minNodeCount)}`);
+      } else if (groupScaling.minNodeCount !== undefined && dataTierScaling) {
+        errors.push(`${groupKey}.minNodeCount: every data tier starts with its own nodeCount, the bound only applies without dataTiers`);
+      }
+      if (maxNodeCount === undefined) {
+        errors.push(`${groupKey}.maxNodeCount: expected a positive integer but found ${JSON.stringify(groupScaling.maxNodeCount)}`);
+      } else if (groupScaling.minNodeCount === undefined || minNodeCount !== undefined) {
+        const lowerBound = (dataTierScaling ? undefined : minNodeCount) ?? Math.max(...nodeCounts.filter((nodeCount) => !Number.isNaN(nodeCount)));
+        if (maxNodeCount < lowerBound) {
+          errors.push(`${groupKey}.maxNodeCount: expected at least the ${lowerBound} nodes the group starts with but found ${maxNodeCount}`);
+        }
+      }
+    });
+  });
+
+  collectError(errors, 'remoteStore', () => {
+    const { remoteStore } = params;
+    if (remoteStore === undefined) {
+      return;
+    }
+    if (params.enableRemoteStore !== true) {
+      throw new Error('parameter requires enableRemoteStore to be set to true');
+    }
+    if (remoteStore.bucketArn !== undefined && !bucketArnPattern.test(`${remoteStore.bucketArn}`)) {
+      errors.push(`remoteStore.bucketArn: expected the arn of an S3 bucket but found ${JSON.stringify(remoteStore.bucketArn)}`);
+    }
+    if (remoteStore.removalPolicy !== undefined) {
+      if (remoteStore.removalPolicy !== 'destroy' && remoteStore.removalPolicy !== 'retain') {
+        errors.push(`remoteStore.removalPolicy: expected destroy or retain but found ${JSON.stringify(remoteStore.removalPolicy)}`);
+      } else if (remoteStore.bucketArn !== undefined) {
+        errors.push('remoteStore.removalPolicy: the removal policy only applies to the created bucket, not to bucketArn');
+      }
+    }
+    if (remoteStore.kmsKeyArn !== undefined && !kmsKeyArnPattern.test(`${remoteStore.kmsKeyArn}`)) {
+      errors.push(`remoteStore.kmsKeyArn: expected the arn of a KMS key but found ${JSON.stringify(remoteStore.kmsKeyArn)}`);
+    }
+    if (remoteStore.basePath !== undefined && !basePathPattern.test(`${remoteStore.basePath}`)) {
+      errors.push(`remoteStore.basePath: expected a path without leading or trailing slash but found ${JSON.stringify(remoteStore.basePath)}`);
+    }
+    if (remoteStore.separateRepositories !== undefined && !isBooleanValue(remoteStore.separateRepositories)) {
+      errors.push('remoteStore.separateRepositories: parameter is required to be set as - true or false');
+    }
+    if (remoteStore.restoreFromStack !== undefined) {
+      if (!isSingleNode) {
+        errors.push('remoteStore.restoreFromStack: only a single node cluster can attach to the remote store of another cluster');
+      }
+      if (remoteStore.bucketArn === undefined) {
+        errors.push('remoteStore.restoreFromStack: expected the bucketArn of the remote store of the source cluster');
+      }
+      if (params.distVersion !== undefined && isVersionBefore(params.distVersion, [2, 10])) {
+        errors.push('remoteStore.restoreFromStack: restoring the remote cluster state requires OpenSearch 2.10 or later');
+      }
+      warnings.push(`remoteStore.restoreFromStack: the single node writes to the remote store of ${remoteStore.restoreFromStack}, `
+        + 'stop the source cluster first, two clusters sharing a remote store corrupt its indices');
+    }
+  });
+
+  if (params.greenDistributionUrl !== undefined) {
+    // the green cluster would attach to the remote store of the source cluster as well, corrupting its indices
+    if (isSingleNode && params.remoteStore?.restoreFromStack !== undefined) {
+      errors.push('greenDistributionUrl: a single node attached to the remote store of another cluster with remoteStore.restoreFromStack '
+        + 'cannot deploy a green cluster, upgrade the source cluster instead');
+    }
+    if (params.snapshotRepository?.schedule === undefined) {
+      warnings.push('greenDistributionUrl: the green cluster restores the latest successful snapshot of the blue cluster, which takes '
+        + 'none without snapshotRepository.schedule, the deployment of the green stack fails unless a snapshot was taken before');
+    }
+    // the certificate of the blue cluster does not cover the green subdomain
+    if (params.domainName !== undefined && params.greenCertificateArn === undefined && params.hostedZoneId === undefined) {
+      errors.push(`greenCertificateArn: the green cluster is served under green.${params.domainName}, which requires either `
+        + 'greenCertificateArn or a hosted zone to validate a new certificate');
+    }
+    if (params.domainName === undefined && params.greenCertificateArn !== undefined) {
+      errors.push('greenCertificateArn: parameter requires domainName to be set');
+    }
+  } else {
+    const greenKeys: ('greenDistVersion' | 'greenDashboardsUrl' | 'greenCertificateArn')[] = ['greenDistVersion', 'greenDashboardsUrl',
+      'greenCertificateArn'];
+    greenKeys.forEach((key) => {
+      if (params[key] !== undefined) {
+        errors.push(`${key}: parameter requires greenDistributionUrl to be set`);
+      }
+    });
+  }
+
+  const generateCertificates = params.generateCertificates === true;
+  if (generateCertificates && (params.securityDisabled === true || params.minDistribution === true)) {
+    errors.push('generateCertificates: certificates are only used by the security plugin, which is missing with securityDisabled or minDistribution');
+  }
+
+  if ((params.hostedZoneId === undefined) !== (params.hostedZoneName === undefined)) {
+    errors.push('hostedZoneId: hostedZoneId and hostedZoneName must be provided together');
+  }
+  if (params.domainName !== undefined) {
+    const { domainName, hostedZoneName } = params;
+    if (params.certificateArn === undefined && params.hostedZoneId === undefined) {
+      errors.push('domainName: terminating TLS on the load balancer requires either certificateArn or a hosted zone to validate a new certificate');
+    }
+    const zoneName = `${hostedZoneName}`.replace(/\.$/, '');
+    if (hostedZoneName !== undefined && domainName !== zoneName && !domainName.endsWith(`.${zoneName}`)) {
+      errors.push(`domainName: ${domainName} is not part of the hosted zone ${hostedZoneName}`);
+    }
+  } else {
+    const domainKeys: ('hostedZoneId' | 'hostedZoneName' | 'certificateArn')[] = ['hostedZoneId', 'hostedZoneName', 'certificateArn'];
+    domainKeys.forEach((key) => {
+      if (params[key] !== undefined) {
+        errors.push(`${key}: parameter requires domainName to be set`);
+      }
+    });
+  }
+
+  const hasSecurityPlugin = params.securityDisabled === false && params.minDistribution === false;
+  if (params.adminPasswordSecretArn !== undefined) {
+    if (!hasSecurityPlugin) {
+      errors.push('adminPasswordSecretArn: the admin password is only used by the security plugin, which is missing with securityDisabled or minDistribution');
+    } else if (!/^arn:aws[a-z-]*:secretsmanager:[a-z0-9-]+:[0-9]{12}:secret:.+-[A-Za-z0-9]{6}$/.test(params.adminPasswordSecretArn)) {
+      errors.push(`adminPasswordSecretArn: expected the complete ARN of a secret but found ${JSON.stringify(params.adminPasswordSecretArn)}`);
+    }
+  }
+
+  const usernames: string[] = [];
+  collectError(errors, 'internalUsers', () => {
+    const internalUsers = params.internalUsers ?? [];
+    if (internalUsers.length > 0 && !hasSecurityPlugin) {
+      throw new Error('internal users require the security plugin, which is missing with securityDisabled or minDistribution');
+    }
+    internalUsers.forEach((user, index) => {
+      const userKey = `internalUsers[${index}]`;
+      if (typeof user.username !== 'string' || user.username.length === 0) {
+        errors.push(`${userKey}.username: expected a non-empty username but found ${JSON.stringify(user.username)}`);
+      } else if (reservedUsernames.includes(user.username) || usernames.includes(user.username)) {
+        errors.push(`${userKey}.username: duplicate or reserved username ${user.username}`);
+      }
+      usernames.push(user.username);
+      if (!/^\$2[aby]?\$[0-9]{2}\$.{53}$/.test(`${user.hash}`)) {
+        errors.push(`${userKey}.hash: expected a bcrypt password hash, e.g. generated with plugins/opensearch-security/tools/hash.sh`);
+      }
+    });
+  });
+
+  collectError(errors, 'securityRoles', () => {
+    const securityRoles = params.securityRoles ?? [];
+    if (securityRoles.length > 0 && !hasSecurityPlugin) {
+      throw new Error('security roles require the security plugin, which is missing with securityDisabled or minDistribution');
+    }
+    const roleNames: string[] = [];
+    securityRoles.forEach((role, index) => {
+      const roleKey = `securityRoles[${index}]`;
+      if (!/^[A-Za-z0-9_-]+$/.test(`${role.name}`)) {
+        errors.push(`${roleKey}.name: expected an alphanumeric name but found ${JSON.stringify(role.name)}`);
+      } else if (reservedRoleNames.includes(role.name) || roleNames.includes(role.name)) {
+        errors.push(`${roleKey}.name: duplicate or reserved security role ${role.name}`);
+      }
+      roleNames.push(role.name);
+      (role.indexPermissions ?? []).forEach((permission, permissionIndex) => {
+        if (!Array.isArray(permission.indexPatterns) || !Array.isArray(permission.allowedActions)) {
+          errors.push(`${roleKey}.indexPermissions[${permissionIndex}]: expected the indexPatterns and allowedActions lists`);
+        }
+      });
+      (role.users ?? []).forEach((username) => {
+        if (!reservedUsernames.includes(username) && !usernames.includes(username)) {
+          errors.push(`${roleKey}.users: unknown user ${username}`);
+        }
+      });
+    });
+  });
+
+  const repository = params.snapshotRepository;
+  if (repository !== undefined) {
+    if (repository.bucketArn !== undefined && !bucketArnPattern.test(`${repository.bucketArn}`)) {
+      errors.push(`snapshotRepository.bucketArn: expected the arn of an S3 bucket but found ${JSON.stringify(repository.bucketArn)}`);
+    }
+    if (repository.kmsKeyArn !== undefined && !kmsKeyArnPattern.test(`${repository.kmsKeyArn}`)) {
+      errors.push(`snapshotRepository.kmsKeyArn: expected the arn of a KMS key but found ${JSON.stringify(repository.kmsKeyArn)}`);
+    }
+    if (repository.basePath !== undefined && !basePathPattern.test(`${repository.basePath}`)) {
+      errors.push(`snapshotRepository.basePath: expected a path without leading or trailing slash but found ${JSON.stringify(repository.basePath)}`);
+    }
+    if (repository.infrequentAccessDays !== undefined) {
+      const days = toPositiveInteger(repository.infrequentAccessDays);
+      if (days === undefined || days < minInfrequentAccessDays) {
+        errors.push(`snapshotRepository.infrequentAccessDays: expected at least ${minInfrequentAccessDays} days `
+          + `but found ${JSON.stringify(repository.infrequentAccessDays)}`);
+      } else if (repository.bucketArn !== undefined) {
+        errors.push('snapshotRepository.infrequentAccessDays: the lifecycle rules only apply to the created bucket, not to bucketArn');
+      }
+    }
+    if (repository.schedule !== undefined) {
+      if (`${repository.schedule}`.trim().split(/\s+/).length !== 5) {
+        errors.push(`snapshotRepository.schedule: expected a cron expression with 5 fields but found ${JSON.stringify(repository.schedule)}`);
+      }
+      if (params.minDistribution === true) {
+        errors.push('snapshotRepository.schedule: snapshot management is part of the index management plugin, '
+          + 'which is missing with minDistribution');
+      } else if (params.distVersion !== undefined && isVersionBefore(params.distVersion, [2, 1])) {
+        errors.push('snapshotRepository.schedule: snapshot management requires OpenSearch 2.1 or later');
+      }
+    }
+    if (repository.retention !== undefined) {
+      const { retention } = repository;
+      if (repository.schedule === undefined) {
+        errors.push('snapshotRepository.retention: the retention is applied by the snapshot management policy, which requires a schedule');
+      }
+      if (retention.maxCount === undefined && retention.maxAge === undefined) {
+        errors.push('snapshotRepository.retention: expected maxCount or maxAge');
+      }
+      const retentionCountKeys: ('maxCount' | 'minCount')[] = ['maxCount', 'minCount'];
+      retentionCountKeys.forEach((key) => {
+        if (retention[key] !== undefined && toPositiveInteger(retention[key]) === undefined) {
+          errors.push(`snapshotRepository.retention.${key}: expected a positive integer but found ${JSON.stringify(retention[key])}`);
+        }
+      });
+      if (retention.maxAge !== undefined && !/^[1-9][0-9]*[dhm]$/.test(`${retention.maxAge}`)) {
+        errors.push(`snapshotRepository.retention.maxAge: expected a duration such as 30d, 12h or 90m but found ${JSON.stringify(retention.maxAge)}`);
+      }
+    }
+  }
+
+  const { monitoring } = params;
+  if (monitoring !== undefined) {
+    if (monitoring.alarmTopicArn !== undefined && !topicArnPattern.test(`${monitoring.alarmTopicArn}`)) {
+      errors.push(`monitoring.alarmTopicArn: expected the arn of an SNS topic but found ${JSON.stringify(monitoring.alarmTopicArn)}`);
+    }
+    if (monitoring.alarmEmails !== undefined) {
+      if (!Array.isArray(monitoring.alarmEmails)) {
+        errors.push(`monitoring.alarmEmails: expected a list of email addresses but found ${JSON.stringify(monitoring.alarmEmails)}`);
+      } else {
+        monitoring.alarmEmails.filter((email) => !emailPattern.test(`${email}`)).forEach((email) => {
+          errors.push(`monitoring.alarmEmails: expected an email address but found ${JSON.stringify(email)}`);
+        });
+        if (monitoring.alarmTopicArn !== undefined) {
+          errors.push('monitoring.alarmEmails: the email addresses subscribe to a created topic, subscribe them to alarmTopicArn instead');
+        }
+      }
+    }
+    if (monitoring.alarmTopicArn === undefined && monitoring.alarmEmails === undefined) {
+      errors.push('monitoring: expected alarmTopicArn or alarmEmails');
+    }
+  }
+
+  if (params.dashboardsUrl !== undefined) {
+    if (params.minDistribution === true) {
+      warnings.push('dashboardsUrl: the min distribution has no security plugin or certificates but OpenSearch Dashboards '
+        + 'keeps the security dashboards plugin and its https connection to the cluster');
+    } else if (params.securityDisabled === false && !generateCertificates) {
+      warnings.push('dashboardsUrl: OpenSearch Dashboards connects to the cluster using the demo security certificates');
+    }
+  }
+
+  return { parameters: params, errors, warnings };
+};
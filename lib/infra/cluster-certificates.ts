@@ -0,0 +1,127 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { RemovalPolicy, SecretValue, Stack } from 'aws-cdk-lib';
+import { InitCommand, InitElement, InitFile } from 'aws-cdk-lib/aws-ec2';
+import { IRole } from 'aws-cdk-lib/aws-iam';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+
+// Value of the secret until the certificates are generated by the first node
+const pendingCertificates = 'pending';
+
+const adminDn = 'CN=admin,O=OpenSearch';
+
+const nodesDn = 'CN=node,O=OpenSearch';
+
+/**
+ * Private CA, node and admin certificates generated for the cluster in place of the demo certificates.
+ * The seed node (or the single node) generates them with openssl when the cluster is created and stores them
+ * in a Secrets Manager secret as a base64 encoded tarball, every other node waits for the secret to be populated.
+ * The key of the CA stays on the node which generated it, so that the other nodes cannot issue certificates.
+ * The secret is kept across node replacements so that the CA never changes during the lifetime of the cluster.
+ */
+export class ClusterCertificates {
+    private readonly certificatesSecret: Secret
+
+    constructor(scope: Stack) {
+      this.certificatesSecret = new Secret(scope, 'clusterCertificates', {
+        description: `Private CA, node and admin certificates of the ${scope.stackName} OpenSearch cluster`,
+        secretStringValue: SecretValue.unsafePlainText(pendingCertificates),
+        removalPolicy: RemovalPolicy.DESTROY,
+      });
+    }
+
+    public getCertificatesSecret() {
+      return this.certificatesSecret;
+    }
+
+    public grantInstanceRole(role: IRole) {
+      this.certificatesSecret.grantRead(role);
+    }
+
+    /**
+     * Lets the role of the node generating the certificates store them in the secret
+     */
+    public grantGenerate(role: IRole) {
+      this.certificatesSecret.grantWrite(role);
+    }
+
+    /**
+     * Returns the cfn-init elements installing the certificates in the OpenSearch config directory
+     * @param generate whether this node generates the certificates when the secret is still pending
+     * @param subjectAltNames additional DNS names of the node certificate, e.g. the friendly domain name of the cluster
+     */
+    public getInitElements(scope: Stack, generate: boolean, subjectAltNames: string[]): InitElement[] {
+      // a wildcard only covers one label: the private DNS names are ip-x.ec2.internal in us-east-1 and ip-x.<region>.compute.internal
+      // in the other regions
+      const altNames = ['DNS:localhost', 'IP:127.0.0.1', 'DNS:*.ec2.internal', `DNS:*.${scope.region}.compute.internal`]
+        .concat(subjectAltNames.map((name) => `DNS:${name}`)).join(',');
+      const fetchSecret = `aws secretsmanager get-secret-value --region ${scope.region} --secret-id ${this.certificatesSecret.secretArn} `
+        + '--query SecretString --output text';
+
+      const script = `#!/bin/bash
+set -e
+cd /home/ec2-user/opensearch/config
+if [ "${generate}" = "true" ] && [ "$(${fetchSecret})" = "${pendingCertificates}" ]; then
+  workdir=$(mktemp -d)
+  cd $workdir
+  openssl genrsa -out root-ca-key.pem 2048
+  openssl req -new -x509 -sha256 -key root-ca-key.pem -subj "/O=OpenSearch/CN=${scope.stackName}-root-ca" -out root-ca.pem -days 3650
+  for name in admin node; do
+    openssl genrsa -out $name-key-temp.pem 2048
+    openssl pkcs8 -inform PEM -outform PEM -in $name-key-temp.pem -topk8 -nocrypt -v1 PBE-SHA1-3DES -out $name-key.pem
+    openssl req -new -key $name-key.pem -subj "/O=OpenSearch/CN=$name" -out $name.csr
+  done
+  echo "subjectAltName=${altNames}" > node.ext
+  openssl x509 -req -in admin.csr -CA root-ca.pem -CAkey root-ca-key.pem -CAcreateserial -sha256 -out admin.pem -days 3650
+  openssl x509 -req -in node.csr -CA root-ca.pem -CAkey root-ca-key.pem -CAcreateserial -sha256 -out node.pem -days 3650 -extfile node.ext
+  tar czf - root-ca.pem admin-key.pem admin.pem node-key.pem node.pem | base64 -w0 > bundle.b64
+  aws secretsmanager put-secret-value --region ${scope.region} --secret-id ${this.certificatesSecret.secretArn} --secret-string file://bundle.b64
+  install -o ec2-user -g ec2-user -m 600 root-ca-key.pem /home/ec2-user/opensearch/config/root-ca-key.pem
+  cd - && rm -rf $workdir
+fi
+# wait up to 30 minutes for the node generating the certificates
+for i in $(seq 1 180); do
+  bundle=$(${fetchSecret})
+  if [ "$bundle" != "${pendingCertificates}" ]; then break; fi
+  sleep 10
+done
+if [ "$bundle" = "${pendingCertificates}" ]; then echo "Timed out waiting for the cluster certificates"; exit 1; fi
+echo "$bundle" | base64 -d | tar xzf - root-ca.pem admin-key.pem admin.pem node-key.pem node.pem
+chown ec2-user:ec2-user root-ca.pem admin-key.pem admin.pem node-key.pem node.pem
+chmod 600 admin-key.pem node-key.pem
+`;
+
+      return [
+        InitFile.fromString('/home/ec2-user/install-certificates.sh', script, { mode: '000755' }),
+        InitCommand.shellCommand('set -ex;/home/ec2-user/install-certificates.sh', {
+          ignoreErrors: false,
+        }),
+      ];
+    }
+
+    /**
+     * Returns the `opensearch.yml` settings enabling the installed certificates.
+     * The demo configuration of opensearch-tar-install.sh is skipped once opensearch.yml has security settings.
+     */
+    public static getOpenSearchConfig(): object {
+      return {
+        'plugins.security.ssl.transport.pemcert_filepath': 'node.pem',
+        'plugins.security.ssl.transport.pemkey_filepath': 'node-key.pem',
+        'plugins.security.ssl.transport.pemtrustedcas_filepath': 'root-ca.pem',
+        'plugins.security.ssl.transport.enforce_hostname_verification': false,
+        'plugins.security.ssl.http.enabled': true,
+        'plugins.security.ssl.http.pemcert_filepath': 'node.pem',
+        'plugins.security.ssl.http.pemkey_filepath': 'node-key.pem',
+        'plugins.security.ssl.http.pemtrustedcas_filepath': 'root-ca.pem',
+        'plugins.security.allow_default_init_securityindex': true,
+        'plugins.security.authcz.admin_dn': [adminDn],
+        'plugins.security.nodes_dn': [nodesDn],
+        'plugins.security.restapi.roles_enabled': ['all_access', 'security_rest_api_access'],
+      };
+    }
+}
@@ -0,0 +1,183 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { RemovalPolicy, Stack } from 'aws-cdk-lib';
+import {
+  InitCommand, InitElement, InitFile, InitService,
+} from 'aws-cdk-lib/aws-ec2';
+import { IRole } from 'aws-cdk-lib/aws-iam';
+import { ISecret, Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { InternalUserConfig, SecurityRoleConfig } from '../cluster-config/cluster-config';
+import { logToBootstrapFile, renderSystemdUnit } from '../opensearch-config/config-renderer';
+import {
+  adminPasswordHashPlaceholder, dashboardsPasswordHashPlaceholder, renderInternalUsers, renderRoles, renderRolesMapping,
+} from '../opensearch-config/security-config';
+
+// Characters breaking the shell, sed and yaml quoting of the passwords on the nodes
+const excludedPasswordCharacters = '"\'`\\$&|';
+
+// Staging directory of the rendered security config, copied to the config directory of the security plugin
+const securityConfigDir = '/home/ec2-user/security-config';
+
+/**
+ * Passwords of the admin and OpenSearch Dashboards users stored in Secrets Manager in place of the demo credentials.
+ * Each secret holds a json object with the `username` and `password` keys. The admin password is generated unless
+ * an existing secret is provided.
+ */
+export class ClusterCredentials {
+    private readonly adminPasswordSecret: ISecret
+
+    private readonly dashboardsPasswordSecret?: Secret
+
+    constructor(scope: Stack, adminPasswordSecretArn: string | undefined, withDashboards: boolean) {
+      if (adminPasswordSecretArn === undefined) {
+        this.adminPasswordSecret = new Secret(scope, 'adminPassword', {
+          description: `Password of the admin user of the ${scope.stackName} OpenSearch cluster`,
+          generateSecretString: {
+            secretStringTemplate: JSON.stringify({ username: 'admin' }),
+            generateStringKey: 'password',
+            excludeCharacters: excludedPasswordCharacters,
+          },
+          removalPolicy: RemovalPolicy.DESTROY,
+        });
+      } else {
+        this.adminPasswordSecret = Secret.fromSecretCompleteArn(scope, 'adminPassword', adminPasswordSecretArn);
+      }
+
+      if (withDashboards) {
+        this.dashboardsPasswordSecret = new Secret(scope, 'dashboardsPassword', {
+          description: `Password of the OpenSearch Dashboards server user of the ${scope.stackName} OpenSearch cluster`,
+          generateSecretString: {
+            secretStringTemplate: JSON.stringify({ username: 'kibanaserver' }),
+            generateStringKey: 'password',
+            excludeCharacters: excludedPasswordCharacters,
+          },
+          removalPolicy: RemovalPolicy.DESTROY,
+        });
+      }
+    }
+
+    public getAdminPasswordSecret() {
+      return this.adminPasswordSecret;
+    }
+
+    public grantInstanceRole(role: IRole) {
+      this.adminPasswordSecret.grantRead(role);
+      this.dashboardsPasswordSecret?.grantRead(role);
+    }
+
+    private static fetchPassword(scope: Stack, secret: ISecret) {
+      return `aws secretsmanager get-secret-value --region ${scope.region} --secret-id ${secret.secretArn} --query SecretString --output text `
+        + '| jq -r .password';
+    }
+
+    /**
+     * Returns the cfn-init elements rendering the internal users, roles and role mappings before OpenSearch starts
+     */
+    public getInitElements(scope: Stack, internalUsers: InternalUserConfig[], securityRoles: SecurityRoleConfig[]): InitElement[] {
+      // the password is read from the environment of hash.sh, its command line is visible to every process of the node
+      const hashPassword = 'JAVA_HOME=/home/ec2-user/opensearch/jdk OPENSEARCH_JAVA_HOME=/home/ec2-user/opensearch/jdk '
+        + 'plugins/opensearch-security/tools/hash.sh -env HASH_PASSWORD';
+      let script = `#!/bin/bash
+set -e
+cd /home/ec2-user/opensearch
+dir=config/opensearch-security
+# OpenSearch 1.x keeps the security config within the plugin directory
+if [ ! -d $dir ]; then dir=plugins/opensearch-security/securityconfig; fi
+admin_hash=$(HASH_PASSWORD="$(${ClusterCredentials.fetchPassword(scope, this.adminPasswordSecret)})" ${hashPassword} | tail -n 1)
+sed -i -e "s|${adminPasswordHashPlaceholder}|$admin_hash|" ${securityConfigDir}/internal_users.yml
+`;
+      if (this.dashboardsPasswordSecret !== undefined) {
+        const fetchDashboardsPassword = ClusterCredentials.fetchPassword(scope, this.dashboardsPasswordSecret);
+        script += `dashboards_hash=$(HASH_PASSWORD="$(${fetchDashboardsPassword})" ${hashPassword} | tail -n 1)
+sed -i -e "s|${dashboardsPasswordHashPlaceholder}|$dashboards_hash|" ${securityConfigDir}/internal_users.yml
+`;
+      }
+      script += `cp ${securityConfigDir}/internal_users.yml $dir/internal_users.yml
+`;
+
+      const initElements: InitElement[] = [
+        InitFile.fromString(`${securityConfigDir}/internal_users.yml`,
+          renderInternalUsers(internalUsers, this.dashboardsPasswordSecret !== undefined), { mode: '000600' }),
+      ];
+      if (securityRoles.length > 0) {
+        // the additional roles are appended to the default roles and mappings of the security plugin
+        initElements.push(InitFile.fromString(`${securityConfigDir}/roles.yml`, renderRoles(securityRoles)));
+        initElements.push(InitFile.fromString(`${securityConfigDir}/roles_mapping.yml`, renderRolesMapping(securityRoles)));
+        script += `cat ${securityConfigDir}/roles.yml >> $dir/roles.yml
+cat ${securityConfigDir}/roles_mapping.yml >> $dir/roles_mapping.yml
+`;
+      }
+      script += `chown -R ec2-user:ec2-user $dir
+`;
+
+      return initElements.concat([
+        InitFile.fromString('/home/ec2-user/install-security-config.sh', script, { mode: '000755' }),
+        InitCommand.shellCommand('set -ex;/home/ec2-user/install-security-config.sh', {
+          ignoreErrors: false,
+        }),
+      ]);
+    }
+
+    /**
+     * Returns the cfn-init elements applying the security config with securityadmin.sh once OpenSearch is up,
+     * using the generated admin certificate if any and the demo one otherwise.
+     * cfn-init starts the services after the commands, the config is therefore applied by a oneshot unit requiring OpenSearch.
+     * @param clusterFormationTimeout seconds a seed node created before the other nodes waits for them in the background,
+     * the security index cannot be updated before the data nodes join
+     */
+    public static getSecurityAdminInitElements(clusterFormationTimeout?: number): InitElement[] {
+      const script = `#!/bin/bash
+set -e
+cd /home/ec2-user/opensearch
+dir=config/opensearch-security
+if [ ! -d $dir ]; then dir=plugins/opensearch-security/securityconfig; fi
+if [ -f config/admin.pem ]; then cert=config/admin.pem; key=config/admin-key.pem; else cert=config/kirk.pem; key=config/kirk-key.pem; fi
+# wait up to ${(clusterFormationTimeout ?? 1200) / 60} minutes for the cluster to form and allocate the security index
+for i in $(seq 1 ${(clusterFormationTimeout ?? 1200) / 10}); do
+  status=$(curl -sk --cert $cert --key $key https://localhost:9200/_cluster/health | jq -r '.status // empty' || true)
+  if [ "$status" = "green" ] || [ "$status" = "yellow" ]; then break; fi
+  sleep 10
+done
+if [ "$status" != "green" ] && [ "$status" != "yellow" ]; then echo "Timed out waiting for the cluster to form"; exit 1; fi
+JAVA_HOME=/home/ec2-user/opensearch/jdk OPENSEARCH_JAVA_HOME=/home/ec2-user/opensearch/jdk plugins/opensearch-security/tools/securityadmin.sh \\
+  -cd $dir -icl -nhnv -cacert config/root-ca.pem -cert $cert -key $key -h localhost
+`;
+      return [
+        InitFile.fromString('/home/ec2-user/run-securityadmin.sh', script, { mode: '000755' }),
+        InitFile.fromString('/etc/systemd/system/opensearch-securityadmin.service', renderSystemdUnit({
+          description: 'Applies the security config of the OpenSearch cluster',
+          requires: ['opensearch.service'],
+          after: ['opensearch.service'],
+          service: {
+            // cfn-init does not wait for a unit running in the background
+            Type: (clusterFormationTimeout === undefined) ? 'oneshot' : 'simple',
+            RemainAfterExit: 'yes',
+            ExecStart: logToBootstrapFile('/home/ec2-user/run-securityadmin.sh'),
+          },
+        })),
+        // started once by cfn-init, the security index keeps the config across restarts
+        InitService.enable('opensearch-securityadmin', { enabled: false, ensureRunning: true }),
+      ];
+    }
+
+    /**
+     * Returns the command setting the password of the OpenSearch Dashboards server user in `opensearch_dashboards.yml`
+     */
+    public getDashboardsInitElements(scope: Stack): InitElement[] {
+      if (this.dashboardsPasswordSecret === undefined) {
+        return [];
+      }
+      return [
+        InitCommand.shellCommand(`set -ex;cd opensearch-dashboards; password=$(${ClusterCredentials.fetchPassword(scope, this.dashboardsPasswordSecret)});`
+          + 'sed -i -e "s|^opensearch.password:.*|opensearch.password: \'$password\'|" config/opensearch_dashboards.yml', {
+          cwd: '/home/ec2-user',
+          ignoreErrors: false,
+        }),
+      ];
+    }
+}
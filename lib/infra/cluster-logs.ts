@@ -0,0 +1,146 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { RemovalPolicy, Stack } from 'aws-cdk-lib';
+import {
+  LogGroup, QueryDefinition, QueryString, RetentionDays,
+} from 'aws-cdk-lib/aws-logs';
+import { FileCollectionDefinition } from '../cloudwatch/logs-section';
+import { bootstrapUnitsLogFile } from '../opensearch-config/config-renderer';
+
+const opensearchLogsDir = '/home/ec2-user/opensearch/logs';
+
+// Each kind of log file has its own log group
+type ClusterLogKind = 'server' | 'slow' | 'deprecation' | 'gc' | 'bootstrap';
+
+// Timestamps of the log4j layouts of OpenSearch, `[%d{ISO8601}]` in the pattern layout and the `timestamp` field of the JSON layout,
+// written in the time zone of the node which is UTC
+const log4jTimestampFormat = '%Y-%m-%dT%H:%M:%S,%f';
+
+// Timestamps of the unified logging of the JVM, decorated with utctime
+const gcTimestampFormat = '%Y-%m-%dT%H:%M:%S.%f%z';
+
+// Timestamps of the cfn-init logs, in UTC
+const cfnInitTimestampFormat = '%Y-%m-%d %H:%M:%S,%f';
+
+// Timestamps of the messages of the bootstrap script, in UTC
+const bootstrapTimestampFormat = '%Y-%m-%d %H:%M:%S';
+
+interface ClusterLogFile {
+  readonly kind: ClusterLogKind,
+  readonly filePath: string,
+  // prefix of the stream of the file within its log group, after the role of the node
+  readonly streamPrefix?: string,
+  // log4j and the JVM rotate their own files, the agent deletes the rotated files once read
+  readonly rotated: boolean,
+  readonly timestampFormat?: string,
+  // stack traces span several lines in the pattern layout, a new event starts with a timestamp
+  readonly multiLine?: boolean,
+}
+
+/**
+ * Log groups of a cluster and the log files of its nodes collected by their CloudWatch agent. Each node writes each file
+ * to the `<role>/<instance id>` stream of its log group, or `<role>/<prefix>/<instance id>` when a log group collects several files.
+ *
+ * The default log4j2 configuration of OpenSearch writes the server, deprecation and slow logs with both its pattern layout (`.log`)
+ * and its JSON layout (`.json`), one JSON object per event with the stack trace as a field, whose fields Logs Insights discovers.
+ * The agent collects either one. The log group of the server log comes with saved Logs Insights queries for common triage.
+ */
+export class ClusterLogs {
+    private readonly logGroups: Record<ClusterLogKind, LogGroup>
+
+    private readonly jsonLayout: boolean
+
+    constructor(scope: Stack, id: string, retention: RetentionDays, jsonLayout: boolean) {
+      this.jsonLayout = jsonLayout;
+      const logGroup = (constructId: string, name: string) => new LogGroup(scope, constructId, {
+        logGroupName: `${id}LogGroup/${name}`,
+        retention,
+        removalPolicy: RemovalPolicy.DESTROY,
+      });
+      this.logGroups = {
+        server: logGroup('opensearchLogGroup', 'opensearch.log'),
+        slow: logGroup('slowLogGroup', 'slow.log'),
+        deprecation: logGroup('deprecationLogGroup', 'deprecation.log'),
+        gc: logGroup('gcLogGroup', 'gc.log'),
+        bootstrap: logGroup('bootstrapLogGroup', 'bootstrap.log'),
+      };
+
+      // saved queries of the server log, listed in the folder of the stack in Logs Insights, matching the messages of either layout
+      const savedQuery = (constructId: string, name: string, queryString: QueryString) => new QueryDefinition(scope, constructId, {
+        queryDefinitionName: `${scope.stackName}/${name}`,
+        queryString,
+        logGroups: [this.logGroups.server],
+      });
+      savedQuery('exceptionsQuery', 'Exceptions by node', new QueryString({
+        filter: '@message like /Exception/',
+        stats: 'count(*) as exceptions by @logStream',
+        sort: 'exceptions desc',
+      }));
+      savedQuery('electionsQuery', 'Cluster manager elections', new QueryString({
+        fields: ['@timestamp', '@logStream', '@message'],
+        filter: '@message like /elected-as-(master|cluster-manager)|(master|cluster-manager) node changed/',
+        sort: '@timestamp desc',
+      }));
+      savedQuery('circuitBreakersQuery', 'Circuit breaker trips', new QueryString({
+        fields: ['@timestamp', '@logStream', '@message'],
+        filter: '@message like /CircuitBreakingException|Data too large/',
+        sort: '@timestamp desc',
+      }));
+    }
+
+    /**
+     * Returns the collect list of the CloudWatch agent of a node, the log4j files of OpenSearch are named after the cluster
+     */
+    public getCollectList(clusterName: string, role: string, dashboards: boolean): FileCollectionDefinition[] {
+      const log4jFile = (kind: ClusterLogKind, patternSuffix: string, jsonSuffix: string, streamPrefix?: string): ClusterLogFile => ({
+        kind,
+        filePath: `${opensearchLogsDir}/${clusterName}${this.jsonLayout ? jsonSuffix : patternSuffix}`,
+        streamPrefix,
+        rotated: true,
+        timestampFormat: log4jTimestampFormat,
+        multiLine: !this.jsonLayout,
+      });
+      const files: ClusterLogFile[] = [
+        log4jFile('server', '.log', '_server.json'),
+        log4jFile('slow', '_index_search_slowlog.log', '_index_search_slowlog.json', 'search'),
+        log4jFile('slow', '_index_indexing_slowlog.log', '_index_indexing_slowlog.json', 'indexing'),
+        log4jFile('deprecation', '_deprecation.log', '_deprecation.json'),
+        {
+          kind: 'gc', filePath: `${opensearchLogsDir}/gc.log`, rotated: true, timestampFormat: gcTimestampFormat,
+        },
+        {
+          kind: 'bootstrap', filePath: '/home/ec2-user/opensearch/install.log', streamPrefix: 'install', rotated: false,
+        },
+        {
+          kind: 'bootstrap', filePath: '/var/log/cfn-init.log', streamPrefix: 'cfn-init', rotated: false, timestampFormat: cfnInitTimestampFormat,
+        },
+        {
+          kind: 'bootstrap', filePath: '/var/log/cfn-init-cmd.log', streamPrefix: 'cfn-init-cmd', rotated: false,
+        },
+        // the health check, drain, metrics, stats, security config and snapshot units
+        {
+          kind: 'bootstrap', filePath: bootstrapUnitsLogFile, streamPrefix: 'units', rotated: false, timestampFormat: bootstrapTimestampFormat,
+        },
+      ];
+      if (dashboards) {
+        files.push({
+          kind: 'bootstrap', filePath: '/home/ec2-user/opensearch-dashboards/dashboard_install.log', streamPrefix: 'dashboards', rotated: false,
+        });
+      }
+      return files.map((file) => ({
+        file_path: file.filePath,
+        log_group_name: this.logGroups[file.kind].logGroupName,
+        log_stream_name: [role, file.streamPrefix, '{instance_id}'].filter((part) => part !== undefined).join('/'),
+        auto_removal: file.rotated,
+        timestamp_format: file.timestampFormat,
+        // the formats without %z are in UTC
+        timezone: (file.timestampFormat === undefined || file.timestampFormat.includes('%z')) ? undefined : 'UTC',
+        multi_line_start_pattern: file.multiLine ? '{timestamp_format}' : undefined,
+      }));
+    }
+}
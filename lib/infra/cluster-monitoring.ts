@@ -0,0 +1,190 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { Duration, Stack } from 'aws-cdk-lib';
+import {
+  Alarm, AlarmStatusWidget, ComparisonOperator, Dashboard, GraphWidget, IMetric, IWidget, Metric, SingleValueWidget, TextWidget,
+  TreatMissingData,
+} from 'aws-cdk-lib/aws-cloudwatch';
+import { SnsAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { NetworkTargetGroup } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { ITopic, Topic } from 'aws-cdk-lib/aws-sns';
+import { EmailSubscription } from 'aws-cdk-lib/aws-sns-subscriptions';
+
+export interface MonitoringProps {
+  // existing SNS topic notified of the alarms
+  readonly alarmTopicArn?: string,
+  // email addresses subscribed to a topic created for the alarms
+  readonly alarmEmails: string[],
+}
+
+export interface ClusterMonitoringProps {
+  // name of the OpenSearch cluster, the `cluster` dimension of the node stats
+  readonly clusterName: string,
+  // values of the `role` tag of the node groups, the dashboard gets a row of graphs per role
+  readonly roles: string[],
+  // node count of the cluster, with the minimum node count of the scaling groups
+  readonly nodeCount: number,
+  // target groups of the load balancer by name, e.g. opensearch and dashboards
+  readonly targetGroups: Record<string, NetworkTargetGroup>,
+  // the alarms notify nobody unless set
+  readonly notifications?: MonitoringProps,
+}
+
+// Namespace of the node stats sent to the StatsD listener of the CloudWatch agent, see NodeStats
+const statsNamespace = 'CWAgent';
+
+// Percentage of heap usage beyond which the garbage collection of a node can no longer keep up
+const heapThreshold = 85;
+
+// Percentage of disk usage of the default low watermark, beyond which no new shard is allocated to a node
+const diskThreshold = 85;
+
+// Minutes a yellow cluster or a missing node is tolerated, e.g. while a node is replaced during a rolling update
+const degradedPeriods = 15;
+
+// Minutes the other alarms wait before they notify
+const alarmPeriods = 5;
+
+// the CloudWatch agent adds the metric_type dimension to the StatsD metrics
+const statsMetric = (name: string, statistic: string, dimensions: Record<string, string>, label?: string, metricType = 'gauge') => new Metric({
+  namespace: statsNamespace,
+  metricName: `opensearch.${name}`,
+  dimensionsMap: { ...dimensions, metric_type: metricType },
+  statistic,
+  label,
+  period: Duration.minutes(1),
+});
+
+// Graph of node stats sharing their statistic and dimensions, given by name and label
+const statsGraph = (title: string, statistic: string, dimensions: Record<string, string>, metrics: string[][], metricType = 'gauge') => new GraphWidget({
+  title,
+  left: metrics.map(([name, label]) => statsMetric(name, statistic, dimensions, label, metricType)),
+  width: 6,
+});
+
+/**
+ * CloudWatch dashboard and alarms of a cluster, built on the node stats sent by every node (see NodeStats) and on the
+ * metrics of the target groups of the load balancer. The dashboard shows the cluster health, then a row of graphs per
+ * node role. The alarms go off when the cluster is red or stays yellow, when nodes are missing, when the heap or disk
+ * usage of the nodes of a role is too high, and when the load balancer has unhealthy targets.
+ */
+export class ClusterMonitoring {
+    private readonly scope: Stack
+
+    private readonly clusterName: string
+
+    private readonly alarms: Alarm[] = []
+
+    constructor(scope: Stack, props: ClusterMonitoringProps) {
+      this.scope = scope;
+      this.clusterName = props.clusterName;
+      const clusterDimensions = { cluster: props.clusterName };
+
+      const status = statsMetric('cluster.status', 'Maximum', clusterDimensions);
+      const nodes = statsMetric('cluster.nodes', 'Minimum', clusterDimensions);
+      this.addAlarm('cluster-red', 'The cluster is red, some primary shards are unassigned', status, {
+        threshold: 2, evaluationPeriods: 1, comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      });
+      this.addAlarm('cluster-yellow', 'The cluster is yellow, some replica shards are unassigned', status, {
+        threshold: 1, evaluationPeriods: degradedPeriods, comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      });
+      // no node sends the stats of the cluster once it is down
+      this.addAlarm('missing-nodes', `The cluster has less than ${props.nodeCount} nodes`, nodes, {
+        threshold: props.nodeCount,
+        evaluationPeriods: degradedPeriods,
+        comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+        treatMissingData: TreatMissingData.BREACHING,
+      });
+      props.roles.forEach((role) => {
+        const roleDimensions = { role, cluster: props.clusterName };
+        this.addAlarm(`${role}-heap`, `The heap usage of a ${role} node is beyond ${heapThreshold}%`,
+          statsMetric('jvm.heap_used_percent', 'Maximum', roleDimensions), {
+            threshold: heapThreshold, evaluationPeriods: alarmPeriods, comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+          });
+        this.addAlarm(`${role}-disk`, `The disk usage of a ${role} node is beyond the low watermark of ${diskThreshold}%`,
+          statsMetric('fs.used_percent', 'Maximum', roleDimensions), {
+            threshold: diskThreshold, evaluationPeriods: alarmPeriods, comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+          });
+      });
+      Object.entries(props.targetGroups).forEach(([name, targetGroup]) => {
+        this.addAlarm(`${name}-unhealthy-targets`, `The load balancer has unhealthy ${name} targets`,
+          targetGroup.metricUnHealthyHostCount({ statistic: 'Maximum', period: Duration.minutes(1) }), {
+            threshold: 0, evaluationPeriods: alarmPeriods, comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+          });
+      });
+
+      if (props.notifications !== undefined) {
+        const action = new SnsAction(this.getTopic(props.notifications));
+        this.alarms.forEach((alarm) => {
+          alarm.addAlarmAction(action);
+          alarm.addOkAction(action);
+        });
+      }
+
+      const widgets: IWidget[][] = [
+        [new TextWidget({ markdown: `# ${props.clusterName}`, width: 24, height: 1 })],
+        [
+          new SingleValueWidget({
+            title: 'Cluster status (0 green, 1 yellow, 2 red)',
+            metrics: [status.with({ label: 'Status' }), nodes.with({ label: 'Nodes' })],
+            width: 6,
+          }),
+          statsGraph('Shards', 'Maximum', clusterDimensions, ['active_shards', 'relocating_shards', 'initializing_shards', 'unassigned_shards']
+            .map((shards) => [`cluster.${shards}`, shards])),
+          new GraphWidget({
+            title: 'Load balancer targets',
+            left: Object.entries(props.targetGroups).map(([name, targetGroup]) => targetGroup.metricHealthyHostCount({
+              label: `${name} healthy`, period: Duration.minutes(1),
+            })),
+            right: Object.entries(props.targetGroups).map(([name, targetGroup]) => targetGroup.metricUnHealthyHostCount({
+              label: `${name} unhealthy`, period: Duration.minutes(1),
+            })),
+            width: 6,
+          }),
+          new AlarmStatusWidget({ title: 'Alarms', alarms: this.alarms, width: 6 }),
+        ],
+      ];
+      props.roles.forEach((role) => {
+        const roleDimensions = { role, cluster: props.clusterName };
+        widgets.push([new TextWidget({ markdown: `## ${role} nodes`, width: 24, height: 1 })]);
+        widgets.push([
+          statsGraph('JVM heap and disk usage (max)', 'Maximum', roleDimensions, [['jvm.heap_used_percent', 'heap'], ['fs.used_percent', 'disk']]),
+          statsGraph('Garbage collections', 'Sum', roleDimensions, [['jvm.gc.young.count', 'young'], ['jvm.gc.old.count', 'old']], 'counter'),
+          statsGraph('Thread pool rejections', 'Sum', roleDimensions,
+            [['thread_pool.search.rejected', 'search'], ['thread_pool.write.rejected', 'write']], 'counter'),
+          statsGraph('Indexing and search rates (per minute)', 'Sum', roleDimensions,
+            [['indexing.docs', 'indexed documents'], ['search.queries', 'search queries']], 'counter'),
+        ]);
+      });
+      new Dashboard(scope, 'clusterDashboard', {
+        dashboardName: scope.stackName,
+        widgets,
+      });
+    }
+
+    private getTopic(props: MonitoringProps): ITopic {
+      if (props.alarmTopicArn !== undefined) {
+        return Topic.fromTopicArn(this.scope, 'alarmTopic', props.alarmTopicArn);
+      }
+      const topic = new Topic(this.scope, 'alarmTopic', { displayName: `Alarms of the ${this.scope.stackName} cluster` });
+      props.alarmEmails.forEach((email) => topic.addSubscription(new EmailSubscription(email)));
+      return topic;
+    }
+
+    private addAlarm(name: string, description: string, metric: IMetric, props: {
+      threshold: number, evaluationPeriods: number, comparisonOperator: ComparisonOperator, treatMissingData?: TreatMissingData,
+    }) {
+      this.alarms.push(new Alarm(this.scope, `${name}-alarm`, {
+        alarmName: `${this.scope.stackName}-${name}`,
+        alarmDescription: `${description} (${this.clusterName})`,
+        metric,
+        ...props,
+        treatMissingData: props.treatMissingData ?? TreatMissingData.NOT_BREACHING,
+      }));
+    }
+}
@@ -6,40 +6,142 @@ this file be licensed under the Apache-2.0 license or a
 compatible open source license. */
 
 import {
-  CfnOutput, RemovalPolicy, Stack, StackProps, Tags,
+  ArnFormat, CfnOutput, Duration, Lazy, RemovalPolicy, Stack, StackProps, Tags,
 } from 'aws-cdk-lib';
 import {
-  AutoScalingGroup, BlockDeviceVolume, EbsDeviceVolumeType, Signals,
+  AutoScalingGroup, AutoScalingGroupProps, BlockDevice, BlockDeviceVolume, CfnAutoScalingGroup, CfnLaunchConfiguration, DefaultResult,
+  EbsDeviceVolumeType, LifecycleTransition, Signals, SpotAllocationStrategy, UpdatePolicy,
 } from 'aws-cdk-lib/aws-autoscaling';
 import {
   AmazonLinuxCpuType,
   AmazonLinuxGeneration,
+  CfnInstance,
+  CfnLaunchTemplate,
   CloudFormationInit,
   ISecurityGroup,
   IVpc,
   InitCommand,
   InitElement,
+  InitFile,
   InitPackage,
+  InitService,
   Instance,
   InstanceClass,
   InstanceSize,
   InstanceType,
+  LaunchTemplate,
   MachineImage,
   SubnetType,
+  UserData,
 } from 'aws-cdk-lib/aws-ec2';
-import { NetworkListener, NetworkLoadBalancer, Protocol } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { Certificate, CertificateValidation } from 'aws-cdk-lib/aws-certificatemanager';
+import {
+  IListenerCertificate, ListenerCertificate, NetworkListener, NetworkLoadBalancer, NetworkTargetGroup, Protocol,
+} from 'aws-cdk-lib/aws-elasticloadbalancingv2';
 import { InstanceTarget } from 'aws-cdk-lib/aws-elasticloadbalancingv2-targets';
 import {
-  ManagedPolicy, Role,
+  IRole, ManagedPolicy, Policy, PolicyStatement, Role,
   ServicePrincipal,
 } from 'aws-cdk-lib/aws-iam';
-import { LogGroup, RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { ARecord, HostedZone, RecordTarget } from 'aws-cdk-lib/aws-route53';
+import { LoadBalancerTarget } from 'aws-cdk-lib/aws-route53-targets';
 import { readFileSync } from 'fs';
-import { dump, load } from 'js-yaml';
 import { join } from 'path';
+import { Construct } from 'constructs';
 import { CloudwatchAgent } from '../cloudwatch/cloudwatch-agent';
-import { nodeConfig } from '../opensearch-config/node-config';
-import { RemoteStoreResources } from './remote-store-resources';
+import { InternalUserConfig, SecurityRoleConfig } from '../cluster-config/cluster-config';
+import {
+  parseAdditionalConfig, renderDashboardsConfig, renderDashboardsService, renderDrainService, renderHealthCheckService, renderJvmOptions,
+  renderOpenSearchConfig, renderOpenSearchService,
+} from '../opensearch-config/config-renderer';
+import { getInstanceSpec } from '../opensearch-config/instance-catalog';
+import { computeNodeStorage } from '../opensearch-config/node-config';
+import { ClusterCertificates } from './cluster-certificates';
+import { ClusterCredentials } from './cluster-credentials';
+import { NodeGroupScaling, NodeGroupScalingProps } from './node-group-scaling';
+import { NodeStats } from './node-stats';
+import { ClusterMonitoring, MonitoringProps } from './cluster-monitoring';
+import { ClusterLogs } from './cluster-logs';
+import { RemoteStoreProps, RemoteStoreResources } from './remote-store-resources';
+import { SnapshotRepository, SnapshotRepositoryProps } from './snapshot-repository';
+import { SnapshotRestore } from './snapshot-restore';
+
+/**
+ * Storage of the data nodes besides the root volume: a dedicated EBS data volume and/or the NVMe instance store.
+ * Each of them is mounted and added to `path.data`, without any of them the data stays on the root volume.
+ */
+export interface DataStorageProps {
+  readonly dataVolumeSize?: number,
+  readonly dataVolumeType?: EbsDeviceVolumeType,
+  readonly dataVolumeIops?: number,
+  readonly dataVolumeThroughput?: number,
+  readonly useInstanceStore: boolean,
+}
+
+export interface DataTierProps {
+  readonly name: string,
+  readonly nodeCount: number,
+  readonly instanceType: InstanceType,
+  readonly storage: number,
+  readonly volumeType: EbsDeviceVolumeType,
+  readonly iops?: number,
+  readonly throughput?: number,
+  readonly roles?: string[],
+  readonly dataStorage: DataStorageProps,
+}
+
+/**
+ * Spot capacity of a node group, whose instances are launched by a mixed instances policy from its instance type
+ * followed by the additional instance types, all of them of the architecture of the cluster
+ */
+export interface SpotCapacityProps {
+  readonly instanceTypes: InstanceType[],
+  readonly onDemandBaseCapacity?: number,
+  readonly onDemandPercentageAboveBaseCapacity?: number,
+}
+
+// the data spot capacity applies to every data tier, the cluster manager and ingest nodes stay on demand
+export interface NodeGroupSpotCapacityProps {
+  readonly data?: SpotCapacityProps,
+  readonly client?: SpotCapacityProps,
+  readonly ml?: SpotCapacityProps,
+}
+
+// scaling bounds of the node groups scaled on the metrics of their nodes, the data bounds apply to every data tier
+export interface AutoScalingProps {
+  readonly data?: NodeGroupScalingProps,
+  readonly client?: NodeGroupScalingProps,
+  readonly ml?: NodeGroupScalingProps,
+  readonly ingest?: NodeGroupScalingProps,
+}
+
+interface NodeGroupProps {
+  readonly nodeType: string,
+  readonly instanceType: InstanceType,
+  readonly capacity: number,
+  readonly storage: number,
+  readonly volumeType?: EbsDeviceVolumeType,
+  // value of the `role` tag of the group and of the role dimension of the stats of its nodes, the data nodes serve client traffic
+  // when there are no client nodes
+  readonly role: string,
+  readonly dataTier?: DataTierProps,
+  readonly dataStorage?: DataStorageProps,
+  // availability zones of the group, every zone of the cluster by default
+  readonly availabilityZones?: string[],
+  readonly spotCapacity?: SpotCapacityProps,
+  // the group keeps its capacity unless it scales
+  readonly scaling?: NodeGroupScalingProps,
+  // CloudFormation replaces the nodes of the group when their launch configuration changes, true by default
+  readonly rollingUpdate?: boolean,
+  // node count the cluster reaches before the nodes of the group signal their creation
+  readonly waitForNodeCount?: number,
+  // the group is created before every other group: its nodes signal their creation once OpenSearch started, and the units needing a
+  // healthy cluster wait for the other nodes in the background
+  readonly createdFirst?: boolean,
+  // role of the instances of the group, the shared instance role by default
+  readonly instanceRole?: IRole,
+}
 
 export interface infraProps extends StackProps {
   readonly vpc: IVpc,
@@ -59,45 +161,118 @@ export interface infraProps extends StackProps {
   readonly mlNodeCount: number,
   readonly dataNodeStorage: number,
   readonly mlNodeStorage: number,
+  readonly ingestNodeStorage: number,
   readonly jvmSysPropsString?: string,
   readonly additionalConfig?: string,
   readonly additionalOsdConfig?: string,
   readonly dataEc2InstanceType: InstanceType,
   readonly mlEc2InstanceType: InstanceType,
+  readonly managerEc2InstanceType: InstanceType,
+  readonly clientEc2InstanceType: InstanceType,
+  readonly ingestEc2InstanceType: InstanceType,
   readonly use50PercentHeap: boolean,
+  readonly memoryLock: boolean,
+  readonly clusterHealthStatus: string,
+  readonly clusterHealthTimeout: number,
   readonly isInternal: boolean,
+  // availability zones of the nodes, the first ones of the VPC, which enable the zone awareness of the shard allocation
+  readonly zoneCount?: number,
+  readonly forceZoneAwareness?: boolean,
   readonly enableRemoteStore: boolean,
+  // bucket and repositories of the remote store, a bucket destroyed along with the stack holds a single repository by default
+  readonly remoteStore?: RemoteStoreProps,
   readonly storageVolumeType: EbsDeviceVolumeType,
-  readonly customRoleArn: string
+  readonly storageIops?: number,
+  readonly storageThroughput?: number,
+  readonly customRoleArn: string,
+  readonly dataTiers: DataTierProps[],
+  readonly dataStorage: DataStorageProps,
+  readonly spotCapacity?: NodeGroupSpotCapacityProps,
+  readonly autoScaling?: AutoScalingProps,
+  readonly generateCertificates: boolean,
+  readonly domainName?: string,
+  readonly hostedZoneId?: string,
+  readonly hostedZoneName?: string,
+  readonly certificateArn?: string,
+  readonly adminPasswordSecretArn?: string,
+  readonly internalUsers: InternalUserConfig[],
+  readonly securityRoles: SecurityRoleConfig[],
+  // snapshot repository of the cluster whose latest snapshot is restored, e.g. the blue cluster of a blue/green upgrade
+  readonly restoreFrom?: SnapshotRepository,
+  readonly snapshotRepository?: SnapshotRepositoryProps,
+  // days the log events of the cluster are kept
+  readonly logRetention: RetentionDays,
+  // collect the JSON layout of the OpenSearch logs instead of their pattern layout
+  readonly jsonLogs: boolean,
+  // notifications of the alarms of the cluster, the dashboard and the alarms are created either way
+  readonly monitoring?: MonitoringProps,
+}
+
+interface ClusterSecurityResources {
+  readonly certificates?: ClusterCertificates,
+  readonly credentials?: ClusterCredentials,
 }
 
+interface ClusterRepositoryResources {
+  readonly remoteStore?: RemoteStoreResources,
+  readonly snapshots?: SnapshotRepository,
+  readonly restore?: SnapshotRestore,
+}
+
+// device name of the data volume, the Amazon Linux udev rules link it to the NVMe device on nitro instances
+const dataVolumeDeviceName = '/dev/sdf';
+
+// bootstrap script of the nodes along with the config files it installs
+const bootstrapDir = '/home/ec2-user/bootstrap';
+
+// minutes given to a node to install OpenSearch before the health check starts, part of the signal timeout
+const installationTimeout = 20;
+
+// termination lifecycle hook of the node groups, completed by the nodes once their shards have relocated
+const drainHookName = 'opensearch-drain';
+
+// minutes a terminating node waits for its shards to relocate, the hook then continues with the termination anyway
+const drainTimeout = 60;
+
 export class InfraStack extends Stack {
   private instanceRole: Role;
 
-  constructor(scope: Stack, id: string, props: infraProps) {
+  // role of the seed node, which alone writes the generated certificates, the shared instance role otherwise
+  private seedInstanceRole?: IRole;
+
+  private securityResources: ClusterSecurityResources = {};
+
+  private repositoryResources: ClusterRepositoryResources = {};
+
+  // node count of the cluster and roles of its node groups, monitored by the alarms and the dashboard
+  private nodeCount = 0;
+
+  private nodeRoles = new Set<string>();
+
+  // DNS name of the network load balancer serving the cluster
+  public readonly loadBalancerUrl: string;
+
+  public readonly remoteStore?: RemoteStoreResources;
+
+  public readonly snapshotRepository?: SnapshotRepository;
+
+  constructor(scope: Construct, id: string, props: infraProps) {
     super(scope, id, props);
     let opensearchListener: NetworkListener;
     let dashboardsListener: NetworkListener;
     let managerAsgCapacity: number;
     let dataAsgCapacity: number;
+    let dataNodeAsg: AutoScalingGroup;
     let clientNodeAsg: AutoScalingGroup;
     let seedConfig: string;
     let hostType: InstanceType;
     let singleNodeInstance: Instance;
+    const targetGroups: Record<string, NetworkTargetGroup> = {};
 
-    const clusterLogGroup = new LogGroup(this, 'opensearchLogGroup', {
-      logGroupName: `${id}LogGroup/opensearch.log`,
-      retention: RetentionDays.ONE_MONTH,
-      removalPolicy: RemovalPolicy.DESTROY,
-    });
+    const clusterLogs = new ClusterLogs(this, id, props.logRetention, props.jsonLogs);
 
     if (props.customRoleArn === 'undefined') {
-      this.instanceRole = new Role(this, 'instanceRole', {
-        managedPolicies: [ManagedPolicy.fromAwsManagedPolicyName('AmazonEC2ReadOnlyAccess'),
-          ManagedPolicy.fromAwsManagedPolicyName('CloudWatchAgentServerPolicy'),
-          ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore')],
-        assumedBy: new ServicePrincipal('ec2.amazonaws.com'),
-      });
+      this.instanceRole = InfraStack.createInstanceRole(this, 'instanceRole');
     } else {
       this.instanceRole = <Role>Role.fromRoleArn(this, 'custom-role-arn', `${props.customRoleArn}`);
     }
@@ -105,8 +280,8 @@ export class InfraStack extends Stack {
     if (props.enableRemoteStore) {
       // Remote Store needs an S3 bucket to be registered as snapshot repo
       // Add scoped bucket policy to the instance role attached to the EC2
-      const remoteStoreObj = new RemoteStoreResources(this);
-      this.instanceRole.addToPolicy(remoteStoreObj.getRemoteStoreBucketPolicy());
+      this.remoteStore = new RemoteStoreResources(this, props.remoteStore ?? { removalPolicy: RemovalPolicy.DESTROY, separateRepositories: false });
+      this.remoteStore.grantInstanceRole(this.instanceRole);
     }
 
     let singleNodeInstanceType: InstanceType;
@@ -118,19 +293,40 @@ export class InfraStack extends Stack {
       singleNodeInstanceType = InstanceType.of(InstanceClass.R6G, InstanceSize.XLARGE);
     }
 
-    const defaultInstanceType = (props.cpuType === AmazonLinuxCpuType.X86_64)
-      ? InstanceType.of(InstanceClass.C5, InstanceSize.XLARGE) : InstanceType.of(InstanceClass.C6G, InstanceSize.XLARGE);
-
     const nlb = new NetworkLoadBalancer(this, 'clusterNlb', {
       vpc: props.vpc,
       internetFacing: (!props.isInternal),
       crossZoneEnabled: true,
     });
 
-    if (!props.securityDisabled && !props.minDistribution) {
+    let listenerCertificates: IListenerCertificate[] | undefined;
+    if (props.domainName !== undefined) {
+      const hostedZone = (props.hostedZoneId === undefined || props.hostedZoneName === undefined) ? undefined
+        : HostedZone.fromHostedZoneAttributes(this, 'clusterHostedZone', { hostedZoneId: props.hostedZoneId, zoneName: props.hostedZoneName });
+      const certificate = (props.certificateArn === undefined)
+        ? new Certificate(this, 'clusterTlsCertificate', { domainName: props.domainName, validation: CertificateValidation.fromDns(hostedZone) })
+        : Certificate.fromCertificateArn(this, 'clusterTlsCertificate', props.certificateArn);
+      listenerCertificates = [ListenerCertificate.fromCertificateManager(certificate)];
+      if (hostedZone !== undefined) {
+        new ARecord(this, 'clusterDnsRecord', {
+          zone: hostedZone,
+          recordName: props.domainName,
+          target: RecordTarget.fromAlias(new LoadBalancerTarget(nlb)),
+        });
+      }
+      new CfnOutput(this, 'cluster-url', {
+        value: `https://${props.domainName}`,
+      });
+    }
+    const terminatesTls = listenerCertificates !== undefined;
+    // with TLS terminated on the load balancer, the traffic is encrypted again towards the nodes serving https
+    const opensearchTargetProtocol = (terminatesTls && !props.securityDisabled && !props.minDistribution) ? Protocol.TLS : Protocol.TCP;
+
+    if ((!props.securityDisabled && !props.minDistribution) || terminatesTls) {
       opensearchListener = nlb.addListener('opensearch', {
         port: 443,
-        protocol: Protocol.TCP,
+        protocol: terminatesTls ? Protocol.TLS : Protocol.TCP,
+        certificates: listenerCertificates,
       });
     } else {
       opensearchListener = nlb.addListener('opensearch', {
@@ -142,9 +338,47 @@ export class InfraStack extends Stack {
     if (props.dashboardsUrl !== 'undefined') {
       dashboardsListener = nlb.addListener('dashboards', {
         port: 8443,
-        protocol: Protocol.TCP,
+        protocol: terminatesTls ? Protocol.TLS : Protocol.TCP,
+        certificates: listenerCertificates,
+      });
+    }
+
+    if (!props.securityDisabled && !props.minDistribution) {
+      const credentials = new ClusterCredentials(this, props.adminPasswordSecretArn, props.dashboardsUrl !== 'undefined');
+      credentials.grantInstanceRole(this.instanceRole);
+      new CfnOutput(this, 'admin-password-secret-arn', {
+        value: credentials.getAdminPasswordSecret().secretArn,
       });
+
+      let certificates: ClusterCertificates | undefined;
+      if (props.generateCertificates) {
+        certificates = new ClusterCertificates(this);
+        certificates.grantInstanceRole(this.instanceRole);
+        // the seed node of a multi-node cluster gets a role of its own with the permissions of the other nodes, a custom role is shared
+        if (!props.singleNodeCluster && props.customRoleArn === 'undefined') {
+          const seedInstanceRole = InfraStack.createInstanceRole(this, 'seedInstanceRole');
+          // the default policy exists since the credentials were granted to the instance role
+          (<Policy> this.instanceRole.node.findChild('DefaultPolicy')).attachToRole(seedInstanceRole);
+          this.seedInstanceRole = seedInstanceRole;
+        }
+        certificates.grantGenerate(this.seedInstanceRole ?? this.instanceRole);
+        new CfnOutput(this, 'certificates-secret-arn', {
+          value: certificates.getCertificatesSecret().secretArn,
+        });
+      }
+      this.securityResources = { certificates, credentials };
+    }
+
+    if (props.snapshotRepository !== undefined) {
+      this.snapshotRepository = new SnapshotRepository(this, props.snapshotRepository);
+      this.snapshotRepository.grantInstanceRole(this.instanceRole);
     }
+    let snapshotRestore: SnapshotRestore | undefined;
+    if (props.restoreFrom !== undefined) {
+      snapshotRestore = new SnapshotRestore(props.restoreFrom);
+      snapshotRestore.grantInstanceRole(this, this.instanceRole);
+    }
+    this.repositoryResources = { remoteStore: this.remoteStore, snapshots: this.snapshotRepository, restore: snapshotRestore };
 
     if (props.singleNodeCluster) {
       console.log('Single node value is true, creating single node configurations');
@@ -160,27 +394,32 @@ export class InfraStack extends Stack {
           subnetType: SubnetType.PRIVATE_WITH_EGRESS,
         },
         securityGroup: props.securityGroup,
-        blockDevices: [{
-          deviceName: '/dev/xvda',
-          volume: BlockDeviceVolume.ebs(props.dataNodeStorage, { deleteOnTermination: true, volumeType: props.storageVolumeType }),
-        }],
-        init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, clusterLogGroup, props)),
+        blockDevices: InfraStack.getBlockDevices(props.dataNodeStorage, props.storageVolumeType, props.storageIops, props.dataStorage),
+        // the health check of the node signals its failures itself, resolved once the instance resource exists
+        init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, clusterLogs, props, singleNodeInstanceType,
+          Lazy.string({ produce: () => (<CfnInstance> this.node.findChild('single-node-instance').node.defaultChild).logicalId }),
+          undefined, undefined, props.dataStorage, this.securityResources, this.repositoryResources)),
         initOptions: {
           ignoreFailures: false,
         },
+        resourceSignalTimeout: Duration.minutes(installationTimeout + props.clusterHealthTimeout),
         requireImdsv2: true,
       });
       Tags.of(singleNodeInstance).add('role', 'client');
+      this.nodeCount = 1;
+      this.nodeRoles.add('client');
 
-      opensearchListener.addTargets('single-node-target', {
+      targetGroups.opensearch = opensearchListener.addTargets('single-node-target', {
         port: 9200,
+        protocol: opensearchTargetProtocol,
         targets: [new InstanceTarget(singleNodeInstance)],
       });
 
       if (props.dashboardsUrl !== 'undefined') {
         // @ts-ignore
-        dashboardsListener.addTargets('single-node-osd-target', {
+        targetGroups.dashboards = dashboardsListener.addTargets('single-node-osd-target', {
           port: 5601,
+          protocol: Protocol.TCP,
           targets: [new InstanceTarget(singleNodeInstance)],
         });
       }
@@ -191,192 +430,372 @@ export class InfraStack extends Stack {
       if (props.managerNodeCount > 0) {
         managerAsgCapacity = props.managerNodeCount - 1;
         dataAsgCapacity = props.dataNodeCount;
+        seedConfig = 'seed-manager';
       } else {
         managerAsgCapacity = props.managerNodeCount;
         dataAsgCapacity = props.dataNodeCount - 1;
+        seedConfig = 'seed-data';
       }
+      // the seed node takes the first zone, the other cluster manager nodes one of the next zones each
+      const zones = InfraStack.getZones(props);
+
+      // lets the nodes complete the termination lifecycle hook of their group once drained
+      this.instanceRole.addToPolicy(new PolicyStatement({
+        actions: ['autoscaling:CompleteLifecycleAction'],
+        resources: [this.formatArn({
+          service: 'autoscaling',
+          resource: 'autoScalingGroup',
+          resourceName: `*:autoScalingGroupName/${this.stackName}-*`,
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+        })],
+      }));
+      // lets the nodes tell the creation of the stack from its updates
+      this.instanceRole.addToPolicy(new PolicyStatement({
+        actions: ['cloudformation:DescribeStacks'],
+        resources: [this.stackId],
+      }));
 
-      if (managerAsgCapacity > 0) {
-        const managerNodeAsg = new AutoScalingGroup(this, 'managerNodeAsg', {
-          vpc: props.vpc,
-          instanceType: defaultInstanceType,
-          machineImage: MachineImage.latestAmazonLinux({
-            generation: AmazonLinuxGeneration.AMAZON_LINUX_2,
-            cpuType: props.cpuType,
-          }),
-          role: this.instanceRole,
-          maxCapacity: managerAsgCapacity,
-          minCapacity: managerAsgCapacity,
-          desiredCapacity: managerAsgCapacity,
-          vpcSubnets: {
-            subnetType: SubnetType.PRIVATE_WITH_EGRESS,
-          },
-          securityGroup: props.securityGroup,
-          blockDevices: [{
-            deviceName: '/dev/xvda',
-            volume: BlockDeviceVolume.ebs(50, { deleteOnTermination: true, volumeType: props.storageVolumeType }),
-          }],
-          init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, clusterLogGroup, props, 'manager')),
-          initOptions: {
-            ignoreFailures: false,
-          },
-          requireImdsv2: true,
-          signals: Signals.waitForAll(),
+      // the node groups without cluster manager eligible nodes are created and updated side by side, their nodes drain one at a time
+      // per group, and only wait for OpenSearch to start while the stack is created since the cluster forms with the manager nodes
+      const nodeAsgs: AutoScalingGroup[] = [];
+      if (props.dataTiers.length === 0) {
+        dataNodeAsg = this.createNodeAsg('dataNodeAsg', clusterLogs, props, {
+          nodeType: 'data',
+          instanceType: props.dataEc2InstanceType,
+          capacity: dataAsgCapacity,
+          storage: props.dataNodeStorage,
+          role: (props.clientNodeCount === 0) ? 'client' : 'data',
+          dataStorage: props.dataStorage,
+          spotCapacity: props.spotCapacity?.data,
+          scaling: props.autoScaling?.data,
         });
-        Tags.of(managerNodeAsg).add('role', 'manager');
-
-        seedConfig = 'seed-manager';
+        nodeAsgs.push(dataNodeAsg);
       } else {
-        seedConfig = 'seed-data';
+        // each data tier gets its own node group, the first tier serves client traffic when there are no client nodes
+        const tierAsgs = props.dataTiers.map((dataTier, index) => {
+          const tierAsg = this.createNodeAsg(`${dataTier.name}DataNodeAsg`, clusterLogs, props, {
+            nodeType: 'data',
+            instanceType: dataTier.instanceType,
+            capacity: dataTier.nodeCount,
+            storage: dataTier.storage,
+            volumeType: dataTier.volumeType,
+            role: (props.clientNodeCount === 0 && index === 0) ? 'client' : 'data',
+            dataTier,
+            dataStorage: dataTier.dataStorage,
+            spotCapacity: props.spotCapacity?.data,
+            // every tier starts with its own node count and scales up to the shared maximum
+            scaling: (props.autoScaling?.data === undefined) ? undefined : { maxNodeCount: props.autoScaling.data.maxNodeCount },
+          });
+          Tags.of(tierAsg).add('tier', dataTier.name);
+          return tierAsg;
+        });
+        [dataNodeAsg] = tierAsgs;
+        nodeAsgs.push(...tierAsgs);
       }
 
-      const seedNodeAsg = new AutoScalingGroup(this, 'seedNodeAsg', {
-        vpc: props.vpc,
-        instanceType: (seedConfig === 'seed-manager') ? defaultInstanceType : props.dataEc2InstanceType,
-        machineImage: MachineImage.latestAmazonLinux({
-          generation: AmazonLinuxGeneration.AMAZON_LINUX_2,
-          cpuType: props.cpuType,
-        }),
-        role: this.instanceRole,
-        maxCapacity: 1,
-        minCapacity: 1,
-        desiredCapacity: 1,
-        vpcSubnets: {
-          subnetType: SubnetType.PRIVATE_WITH_EGRESS,
-        },
-        securityGroup: props.securityGroup,
-        blockDevices: [{
-          deviceName: '/dev/xvda',
-          // eslint-disable-next-line max-len
-          volume: (seedConfig === 'seed-manager') ? BlockDeviceVolume.ebs(50, { deleteOnTermination: true, volumeType: props.storageVolumeType }) : BlockDeviceVolume.ebs(props.dataNodeStorage, { deleteOnTermination: true, volumeType: props.storageVolumeType }),
-        }],
-        init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, clusterLogGroup, props, seedConfig)),
-        initOptions: {
-          ignoreFailures: false,
-        },
-        requireImdsv2: true,
-        signals: Signals.waitForAll(),
-      });
-      Tags.of(seedNodeAsg).add('role', 'manager');
-
-      const dataNodeAsg = new AutoScalingGroup(this, 'dataNodeAsg', {
-        vpc: props.vpc,
-        instanceType: props.dataEc2InstanceType,
-        machineImage: MachineImage.latestAmazonLinux({
-          generation: AmazonLinuxGeneration.AMAZON_LINUX_2,
-          cpuType: props.cpuType,
-        }),
-        role: this.instanceRole,
-        maxCapacity: dataAsgCapacity,
-        minCapacity: dataAsgCapacity,
-        desiredCapacity: dataAsgCapacity,
-        vpcSubnets: {
-          subnetType: SubnetType.PRIVATE_WITH_EGRESS,
-        },
-        securityGroup: props.securityGroup,
-        blockDevices: [{
-          deviceName: '/dev/xvda',
-          volume: BlockDeviceVolume.ebs(props.dataNodeStorage, { deleteOnTermination: true, volumeType: props.storageVolumeType }),
-        }],
-        init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, clusterLogGroup, props, 'data')),
-        initOptions: {
-          ignoreFailures: false,
-        },
-        requireImdsv2: true,
-        signals: Signals.waitForAll(),
-      });
-      Tags.of(dataNodeAsg).add('role', 'data');
-
       if (props.clientNodeCount === 0) {
         clientNodeAsg = dataNodeAsg;
       } else {
-        clientNodeAsg = new AutoScalingGroup(this, 'clientNodeAsg', {
-          vpc: props.vpc,
-          instanceType: defaultInstanceType,
-          machineImage: MachineImage.latestAmazonLinux({
-            generation: AmazonLinuxGeneration.AMAZON_LINUX_2,
-            cpuType: props.cpuType,
-          }),
-          role: this.instanceRole,
-          maxCapacity: props.clientNodeCount,
-          minCapacity: props.clientNodeCount,
-          desiredCapacity: props.clientNodeCount,
-          vpcSubnets: {
-            subnetType: SubnetType.PRIVATE_WITH_EGRESS,
-          },
-          securityGroup: props.securityGroup,
-          blockDevices: [{
-            deviceName: '/dev/xvda',
-            volume: BlockDeviceVolume.ebs(50, { deleteOnTermination: true, volumeType: props.storageVolumeType }),
-          }],
-          init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, clusterLogGroup, props, 'client')),
-          initOptions: {
-            ignoreFailures: false,
-          },
-          requireImdsv2: true,
-          signals: Signals.waitForAll(),
+        clientNodeAsg = this.createNodeAsg('clientNodeAsg', clusterLogs, props, {
+          nodeType: 'client',
+          instanceType: props.clientEc2InstanceType,
+          capacity: props.clientNodeCount,
+          storage: computeNodeStorage,
+          role: 'client',
+          spotCapacity: props.spotCapacity?.client,
+          scaling: props.autoScaling?.client,
         });
-        Tags.of(clientNodeAsg).add('cluster', scope.stackName);
+        Tags.of(clientNodeAsg).add('cluster', this.stackName);
+        nodeAsgs.push(clientNodeAsg);
       }
 
-      Tags.of(clientNodeAsg).add('role', 'client');
-
       if (props.mlNodeCount > 0) {
-        const mlNodeAsg = new AutoScalingGroup(this, 'mlNodeAsg', {
-          vpc: props.vpc,
+        nodeAsgs.push(this.createNodeAsg('mlNodeAsg', clusterLogs, props, {
+          nodeType: 'ml',
           instanceType: props.mlEc2InstanceType,
-          machineImage: MachineImage.latestAmazonLinux({
-            generation: AmazonLinuxGeneration.AMAZON_LINUX_2,
-            cpuType: props.cpuType,
-          }),
-          role: this.instanceRole,
-          maxCapacity: props.mlNodeCount,
-          minCapacity: props.mlNodeCount,
-          desiredCapacity: props.mlNodeCount,
-          vpcSubnets: {
-            subnetType: SubnetType.PRIVATE_WITH_EGRESS,
-          },
-          securityGroup: props.securityGroup,
-          blockDevices: [{
-            deviceName: '/dev/xvda',
-            volume: BlockDeviceVolume.ebs(props.mlNodeStorage, { deleteOnTermination: true, volumeType: props.storageVolumeType }),
-          }],
-          init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, clusterLogGroup, props, 'ml')),
-          initOptions: {
-            ignoreFailures: false,
-          },
-          requireImdsv2: true,
-          signals: Signals.waitForAll(),
-        });
+          capacity: props.mlNodeCount,
+          storage: props.mlNodeStorage,
+          role: 'ml-node',
+          spotCapacity: props.spotCapacity?.ml,
+          scaling: props.autoScaling?.ml,
+        }));
+      }
 
-        Tags.of(mlNodeAsg).add('role', 'ml-node');
+      if (props.ingestNodeCount > 0) {
+        nodeAsgs.push(this.createNodeAsg('ingestNodeAsg', clusterLogs, props, {
+          nodeType: 'ingest',
+          instanceType: props.ingestEc2InstanceType,
+          capacity: props.ingestNodeCount,
+          storage: props.ingestNodeStorage,
+          role: 'ingest',
+          scaling: props.autoScaling?.ingest,
+        }));
+      }
+
+      // the cluster manager eligible groups are created and updated after every other group, one node at a time: the seed node first
+      // since the cluster bootstraps from it, then the other cluster manager nodes. The last one waits for every node of the cluster
+      // to join before signaling its creation. When the seed node generates the certificates, the other nodes wait for them, so the
+      // seed group comes before every other group instead and only the other cluster manager nodes, if any, wait for the whole cluster
+      const clusterNodeCount = this.nodeCount + 1 + managerAsgCapacity;
+      const seedFirst = props.generateCertificates;
+      const seedNodeAsg = this.createNodeAsg('seedNodeAsg', clusterLogs, props, {
+        nodeType: seedConfig,
+        instanceType: (seedConfig === 'seed-manager') ? props.managerEc2InstanceType : props.dataEc2InstanceType,
+        capacity: 1,
+        storage: (seedConfig === 'seed-manager') ? computeNodeStorage : props.dataNodeStorage,
+        role: 'manager',
+        dataStorage: (seedConfig === 'seed-manager') ? undefined : props.dataStorage,
+        availabilityZones: zones?.slice(0, 1),
+        // replacing the only cluster manager eligible node loses the cluster state, its group keeps it on updates
+        rollingUpdate: props.managerNodeCount > 1,
+        waitForNodeCount: (managerAsgCapacity > 0 || seedFirst) ? undefined : clusterNodeCount,
+        createdFirst: seedFirst,
+        instanceRole: this.seedInstanceRole,
+      });
+      if (seedFirst) {
+        nodeAsgs.forEach((nodeAsg) => nodeAsg.node.addDependency(seedNodeAsg));
+      } else {
+        nodeAsgs.forEach((nodeAsg) => seedNodeAsg.node.addDependency(nodeAsg));
+      }
+      if (managerAsgCapacity > 0) {
+        const managerNodeAsg = this.createNodeAsg('managerNodeAsg', clusterLogs, props, {
+          nodeType: 'manager',
+          instanceType: props.managerEc2InstanceType,
+          capacity: managerAsgCapacity,
+          storage: computeNodeStorage,
+          role: 'manager',
+          availabilityZones: zones?.slice(1, props.managerNodeCount),
+          waitForNodeCount: clusterNodeCount,
+        });
+        managerNodeAsg.node.addDependency(seedNodeAsg);
+        if (seedFirst) {
+          nodeAsgs.forEach((nodeAsg) => managerNodeAsg.node.addDependency(nodeAsg));
+        }
       }
 
-      opensearchListener.addTargets('opensearchTarget', {
+      targetGroups.opensearch = opensearchListener.addTargets('opensearchTarget', {
         port: 9200,
+        protocol: opensearchTargetProtocol,
         targets: [clientNodeAsg],
       });
 
       if (props.dashboardsUrl !== 'undefined') {
         // @ts-ignore
-        dashboardsListener.addTargets('dashboardsTarget', {
+        targetGroups.dashboards = dashboardsListener.addTargets('dashboardsTarget', {
           port: 5601,
+          protocol: Protocol.TCP,
           targets: [clientNodeAsg],
         });
       }
     }
 
+    new ClusterMonitoring(this, {
+      clusterName: InfraStack.getClusterName(this, props.remoteStore?.restoreFromStack),
+      roles: Array.from(this.nodeRoles),
+      nodeCount: this.nodeCount,
+      targetGroups,
+      notifications: props.monitoring,
+    });
+
+    this.loadBalancerUrl = nlb.loadBalancerDnsName;
     new CfnOutput(this, 'loadbalancer-url', {
-      value: nlb.loadBalancerDnsName,
+      value: this.loadBalancerUrl,
     });
   }
 
-  private static getCfnInitElement(scope: Stack, logGroup: LogGroup, props: infraProps, nodeType?: string): InitElement[] {
-    const configFileDir = join(__dirname, '../opensearch-config');
-    let opensearchConfig: string;
+  private createNodeAsg(id: string, logs: ClusterLogs, props: infraProps, nodeGroup: NodeGroupProps): AutoScalingGroup {
+    // data tiers resolve their own IOPS and throughput since they can use another volume type
+    const rootVolumeIops = (nodeGroup.dataTier === undefined) ? props.storageIops : nodeGroup.dataTier.iops;
+    const rootVolumeThroughput = (nodeGroup.dataTier === undefined) ? props.storageThroughput : nodeGroup.dataTier.throughput;
+    const machineImage = MachineImage.latestAmazonLinux({
+      generation: AmazonLinuxGeneration.AMAZON_LINUX_2,
+      cpuType: props.cpuType,
+    });
+    const blockDevices = InfraStack.getBlockDevices(nodeGroup.storage, nodeGroup.volumeType ?? props.storageVolumeType, rootVolumeIops,
+      nodeGroup.dataStorage);
+    // a mixed instances policy launches the instances from a launch template instead of a launch configuration
+    let launchProps: Partial<AutoScalingGroupProps>;
+    let launchTemplate: LaunchTemplate | undefined;
+    if (nodeGroup.spotCapacity === undefined) {
+      launchProps = {
+        instanceType: nodeGroup.instanceType,
+        machineImage,
+        role: nodeGroup.instanceRole ?? this.instanceRole,
+        securityGroup: props.securityGroup,
+        blockDevices,
+        requireImdsv2: true,
+      };
+    } else {
+      launchTemplate = new LaunchTemplate(this, `${id}LaunchTemplate`, {
+        machineImage,
+        role: nodeGroup.instanceRole ?? this.instanceRole,
+        securityGroup: props.securityGroup,
+        blockDevices,
+        userData: UserData.forLinux(),
+        requireImdsv2: true,
+      });
+      const instanceTypes = [nodeGroup.instanceType.toString(), ...nodeGroup.spotCapacity.instanceTypes.map((type) => type.toString())];
+      launchProps = {
+        mixedInstancesPolicy: {
+          launchTemplate,
+          launchTemplateOverrides: Array.from(new Set(instanceTypes)).map((type) => ({ instanceType: new InstanceType(type) })),
+          instancesDistribution: {
+            onDemandBaseCapacity: nodeGroup.spotCapacity.onDemandBaseCapacity ?? 0,
+            onDemandPercentageAboveBaseCapacity: nodeGroup.spotCapacity.onDemandPercentageAboveBaseCapacity ?? 0,
+            // the deepest spot pools are the least likely to be interrupted
+            spotAllocationStrategy: SpotAllocationStrategy.CAPACITY_OPTIMIZED,
+          },
+        },
+      };
+    }
+    const nodeAsg = new AutoScalingGroup(this, id, {
+      ...launchProps,
+      vpc: props.vpc,
+      // a scaling group has no desired capacity, which every deployment would reset otherwise
+      maxCapacity: nodeGroup.scaling?.maxNodeCount ?? nodeGroup.capacity,
+      minCapacity: nodeGroup.scaling?.minNodeCount ?? nodeGroup.capacity,
+      desiredCapacity: (nodeGroup.scaling === undefined) ? nodeGroup.capacity : undefined,
+      vpcSubnets: {
+        subnetType: SubnetType.PRIVATE_WITH_EGRESS,
+        availabilityZones: nodeGroup.availabilityZones ?? InfraStack.getZones(props),
+      },
+      // the health check of the nodes signals its failures itself, resolved once the group resource exists
+      init: CloudFormationInit.fromElements(...InfraStack.getCfnInitElement(this, logs, props, nodeGroup.instanceType,
+        Lazy.string({ produce: () => (<CfnAutoScalingGroup> this.node.findChild(id).node.defaultChild).logicalId }),
+        nodeGroup.nodeType, nodeGroup.dataTier, nodeGroup.dataStorage, this.securityResources, this.repositoryResources, nodeGroup)),
+      initOptions: {
+        ignoreFailures: false,
+      },
+      signals: Signals.waitForAll({ timeout: Duration.minutes(installationTimeout + props.clusterHealthTimeout) }),
+      // the replacement of a node is confirmed by its health check before the next one is replaced
+      updatePolicy: UpdatePolicy.rollingUpdate({
+        maxBatchSize: 1,
+        minInstancesInService: Math.max(0, (nodeGroup.scaling?.minNodeCount ?? nodeGroup.capacity) - 1),
+      }),
+    });
+    nodeAsg.addLifecycleHook('drainHook', {
+      lifecycleHookName: drainHookName,
+      lifecycleTransition: LifecycleTransition.INSTANCE_TERMINATING,
+      heartbeatTimeout: Duration.minutes(drainTimeout),
+      defaultResult: DefaultResult.CONTINUE,
+    });
+    // BlockDeviceVolume has no throughput option, the root volume is the first block device and the data volume the second one
+    const launchResource = (launchTemplate === undefined) ? <CfnLaunchConfiguration>nodeAsg.node.findChild('LaunchConfig')
+      : <CfnLaunchTemplate>launchTemplate.node.defaultChild;
+    const blockDeviceMappings = (launchTemplate === undefined) ? 'BlockDeviceMappings' : 'LaunchTemplateData.BlockDeviceMappings';
+    if (rootVolumeThroughput !== undefined) {
+      launchResource.addPropertyOverride(`${blockDeviceMappings}.0.Ebs.Throughput`, rootVolumeThroughput);
+    }
+    const dataVolumeThroughput = nodeGroup.dataStorage?.dataVolumeThroughput;
+    if (dataVolumeThroughput !== undefined) {
+      launchResource.addPropertyOverride(`${blockDeviceMappings}.1.Ebs.Throughput`, dataVolumeThroughput);
+    }
+    if (nodeGroup.rollingUpdate === false) {
+      // the group takes the new launch configuration without replacing its node, the default update policy of cfn-init otherwise
+      (<CfnAutoScalingGroup>nodeAsg.node.defaultChild).cfnOptions.updatePolicy = undefined;
+    }
+    if (launchTemplate !== undefined) {
+      // spot instances at an elevated risk of interruption are replaced ahead of time, draining them through the termination hook
+      // with the shared allocation exclusion list, since several spot groups can rebalance at the same time
+      (<CfnAutoScalingGroup>nodeAsg.node.defaultChild).capacityRebalance = true;
+      // the group only names its instances when it creates their launch configuration
+      Tags.of(nodeAsg).add('Name', nodeAsg.node.path);
+    }
+    if (nodeGroup.scaling !== undefined) {
+      // the scaling activities wait for new nodes to install OpenSearch before acting on the metrics again
+      new NodeGroupScaling(nodeAsg, nodeGroup.nodeType === 'data', Duration.minutes(installationTimeout));
+    }
+    Tags.of(nodeAsg).add('role', nodeGroup.role);
+    this.nodeCount += nodeGroup.scaling?.minNodeCount ?? nodeGroup.capacity;
+    this.nodeRoles.add(nodeGroup.role);
+    return nodeAsg;
+  }
+
+  private static createInstanceRole(scope: Stack, id: string): Role {
+    return new Role(scope, id, {
+      managedPolicies: [ManagedPolicy.fromAwsManagedPolicyName('AmazonEC2ReadOnlyAccess'),
+        ManagedPolicy.fromAwsManagedPolicyName('CloudWatchAgentServerPolicy'),
+        ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore')],
+      assumedBy: new ServicePrincipal('ec2.amazonaws.com'),
+    });
+  }
+
+  private static getBlockDevices(rootVolumeSize: number, rootVolumeType: EbsDeviceVolumeType, rootVolumeIops?: number,
+    dataStorage?: DataStorageProps): BlockDevice[] {
+    const blockDevices: BlockDevice[] = [{
+      deviceName: '/dev/xvda',
+      volume: BlockDeviceVolume.ebs(rootVolumeSize, { deleteOnTermination: true, volumeType: rootVolumeType, iops: rootVolumeIops }),
+    }];
+    if (dataStorage?.dataVolumeSize !== undefined) {
+      blockDevices.push({
+        deviceName: dataVolumeDeviceName,
+        volume: BlockDeviceVolume.ebs(dataStorage.dataVolumeSize, {
+          deleteOnTermination: true,
+          volumeType: dataStorage.dataVolumeType,
+          iops: dataStorage.dataVolumeIops,
+        }),
+      });
+    }
+    return blockDevices;
+  }
 
+  /**
+   * Returns the data paths on the data volume and the instance store, mounted by the prepare-host phase of the bootstrap script
+   */
+  private static getDataPaths(dataStorage?: DataStorageProps): string[] {
+    const dataPaths: string[] = [];
+    if (dataStorage?.useInstanceStore) {
+      dataPaths.push('/mnt/instance-store/opensearch');
+    }
+    if (dataStorage?.dataVolumeSize !== undefined) {
+      dataPaths.push('/mnt/data/opensearch');
+    }
+    return dataPaths;
+  }
+
+  /**
+   * Returns the plugins installed by the bootstrap script, the min distribution and custom builds use the artifacts of the CI
+   */
+  private static getPlugins(props: infraProps): string[] {
+    const plugins = props.singleNodeCluster ? ['repository-s3'] : ['discovery-ec2', 'repository-s3'];
+    if (props.distributionUrl.includes('artifacts.opensearch.org') && !props.minDistribution) {
+      return plugins;
+    }
+    return plugins.map((plugin) => `https://ci.opensearch.org/ci/dbc/distribution-build-opensearch/${props.opensearchVersion}/latest/linux/`
+      + `${props.cpuArch}/tar/builds/opensearch/core-plugins/${plugin}-${props.opensearchVersion}.zip`);
+  }
+
+  private static bootstrapCommand(phase: string, env: Record<string, string> = {}): InitCommand {
+    return InitCommand.shellCommand(`set -ex;${bootstrapDir}/node-bootstrap.sh ${phase}`, {
+      cwd: '/home/ec2-user',
+      env,
+      ignoreErrors: false,
+    });
+  }
+
+  private static getZones(props: infraProps): string[] | undefined {
+    if (props.zoneCount === undefined) {
+      return undefined;
+    }
+    if (props.vpc.availabilityZones.length < props.zoneCount) {
+      throw new Error(`zoneCount: the VPC has ${props.vpc.availabilityZones.length} availability zones, ${props.zoneCount} are required`);
+    }
+    return props.vpc.availabilityZones.slice(0, props.zoneCount);
+  }
+
+  private static getClusterName(scope: Stack, stackName = scope.stackName) {
+    return `${stackName}-${scope.account}-${scope.region}`;
+  }
+
+  private static getCfnInitElement(scope: Stack, logs: ClusterLogs, props: infraProps, instanceType: InstanceType, signalResource: string,
+    nodeType?: string, dataTier?: DataTierProps, dataStorage?: DataStorageProps, security: ClusterSecurityResources = {},
+    repositories: ClusterRepositoryResources = {}, nodeGroup?: NodeGroupProps): InitElement[] {
+    const clusterName = InfraStack.getClusterName(scope, props.remoteStore?.restoreFromStack);
+    // the single node is tagged as a client node
+    const role = nodeGroup?.role ?? 'client';
     const cfnInitConfig: InitElement[] = [
       InitPackage.yum('amazon-cloudwatch-agent'),
+      InitPackage.yum('jq'),
       CloudwatchAgent.asInitFile('/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json',
         {
           agent: {
@@ -413,20 +832,13 @@ export class InfraStack extends Stack {
                   'bytes_sent', 'bytes_recv', 'drop_in', 'drop_out', 'err_in', 'err_out', 'packets_sent', 'packets_recv',
                 ],
               },
+              ...NodeStats.getMetricsCollected(role, clusterName),
             },
           },
           logs: {
             logs_collected: {
               files: {
-                collect_list: [
-                  {
-                    file_path: `/home/ec2-user/opensearch/logs/${scope.stackName}-${scope.account}-${scope.region}.log`,
-                    log_group_name: `${logGroup.logGroupName.toString()}`,
-                    // eslint-disable-next-line no-template-curly-in-string
-                    log_stream_name: '{instance_id}',
-                    auto_removal: true,
-                  },
-                ],
+                collect_list: logs.getCollectList(clusterName, role, props.dashboardsUrl !== 'undefined'),
               },
             },
             force_flush_interval: 5,
@@ -435,212 +847,157 @@ export class InfraStack extends Stack {
       InitCommand.shellCommand('set -ex;/opt/aws/amazon-cloudwatch-agent/bin/amazon-cloudwatch-agent-ctl -a stop'),
       // eslint-disable-next-line max-len
       InitCommand.shellCommand('set -ex;/opt/aws/amazon-cloudwatch-agent/bin/amazon-cloudwatch-agent-ctl -a fetch-config -m ec2 -c file:/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json -s'),
-      InitCommand.shellCommand('set -ex; sudo echo "vm.max_map_count=262144" >> /etc/sysctl.conf;sudo sysctl -p'),
-      InitCommand.shellCommand(`set -ex;mkdir opensearch; curl -L ${props.distributionUrl} -o opensearch.tar.gz;`
-        + 'tar zxf opensearch.tar.gz -C opensearch --strip-components=1; chown -R ec2-user:ec2-user opensearch;', {
-        cwd: '/home/ec2-user',
-        ignoreErrors: false,
-      }),
-      InitCommand.shellCommand('sleep 15'),
     ];
 
-    // Add opensearch.yml config
-    if (props.singleNodeCluster) {
-      const fileContent: any = load(readFileSync(`${configFileDir}/single-node-base-config.yml`, 'utf-8'));
-
-      fileContent['cluster.name'] = `${scope.stackName}-${scope.account}-${scope.region}`;
-
-      opensearchConfig = dump(fileContent).toString();
-      cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "${opensearchConfig}" > config/opensearch.yml`,
-        {
-          cwd: '/home/ec2-user',
-        }));
-    } else {
-      const baseConfig: any = load(readFileSync(`${configFileDir}/multi-node-base-config.yml`, 'utf-8'));
-
-      baseConfig['cluster.name'] = `${scope.stackName}-${scope.account}-${scope.region}`;
-
-      // use discovery-ec2 to find manager nodes by querying IMDS
-      baseConfig['discovery.ec2.tag.Name'] = `${scope.stackName}/seedNodeAsg,${scope.stackName}/managerNodeAsg`;
-
-      const commonConfig = dump(baseConfig).toString();
-      cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "${commonConfig}" > config/opensearch.yml`,
-        {
-          cwd: '/home/ec2-user',
-        }));
-
-      if (nodeType != null) {
-        const nodeTypeConfig = nodeConfig.get(nodeType);
-        const nodeConfigData = dump(nodeTypeConfig).toString();
-        cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "${nodeConfigData}" >> config/opensearch.yml`,
-          {
-            cwd: '/home/ec2-user',
-          }));
-      }
-
-      if (props.distributionUrl.includes('artifacts.opensearch.org') && !props.minDistribution) {
-        cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch;sudo -u ec2-user bin/opensearch-plugin install discovery-ec2 --batch', {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
-      } else {
-        cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch;sudo -u ec2-user bin/opensearch-plugin install '
-          + `https://ci.opensearch.org/ci/dbc/distribution-build-opensearch/${props.opensearchVersion}/latest/linux/${props.cpuArch}`
-          + `/tar/builds/opensearch/core-plugins/discovery-ec2-${props.opensearchVersion}.zip --batch`, {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
-      }
-
-      if (props.enableRemoteStore) {
-        // eslint-disable-next-line max-len
-        cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "node.attr.remote_store.segment.repository: ${scope.stackName}-repo" >> config/opensearch.yml`, {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
-
-        // eslint-disable-next-line max-len
-        cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "node.attr.remote_store.repository.${scope.stackName}-repo.type: s3" >> config/opensearch.yml`, {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
+    // the config files are rendered into the staging directory and installed by the bootstrap script, after the distribution is extracted
+    const opensearchConfig = renderOpenSearchConfig({
+      clusterName,
+      singleNode: props.singleNodeCluster,
+      managerDiscoveryTags: [`${scope.stackName}/seedNodeAsg`, `${scope.stackName}/managerNodeAsg`],
+      nodeType,
+      dedicatedIngestNodes: props.ingestNodeCount > 0,
+      dataTier,
+      dataPaths: InfraStack.getDataPaths(dataStorage),
+      remoteStore: repositories.remoteStore?.getRepositories(),
+      // the remote cluster state of the source cluster is found by its name
+      remoteClusterState: props.remoteStore?.restoreFromStack !== undefined,
+      zoneAwareness: (props.singleNodeCluster || props.zoneCount === undefined || props.zoneCount < 2) ? undefined : {
+        zones: InfraStack.getZones(props) ?? [],
+        forced: props.forceZoneAwareness ?? false,
+      },
+      securityDisabled: props.securityDisabled && !props.minDistribution,
+      securityConfig: (security.certificates === undefined) ? undefined : ClusterCertificates.getOpenSearchConfig(),
+      memoryLock: props.memoryLock,
+      additionalConfig: parseAdditionalConfig(props.additionalConfig),
+    });
+    // the heap of a spot node is sized on the node from the memory of the instance type it was launched with
+    const jvmOptions = renderJvmOptions({
+      use50PercentHeap: props.use50PercentHeap,
+      memoryGiB: (nodeGroup?.spotCapacity === undefined) ? getInstanceSpec(instanceType.toString()).memoryGiB : undefined,
+      jvmSysProps: props.jvmSysPropsString,
+    });
+    cfnInitConfig.push(InitFile.fromString(`${bootstrapDir}/node-bootstrap.sh`, readFileSync(join(__dirname, 'node-bootstrap.sh'), 'utf-8'),
+      { mode: '000755' }));
+    cfnInitConfig.push(InitFile.fromString(`${bootstrapDir}/opensearch.yml`, opensearchConfig));
+    cfnInitConfig.push(InitFile.fromString(`${bootstrapDir}/cluster.options`, jvmOptions));
 
-        // eslint-disable-next-line max-len
-        cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "node.attr.remote_store.repository.${scope.stackName}-repo.settings:\n  bucket : ${scope.stackName}\n  base_path: remote-store\n  region: ${scope.region}" >> config/opensearch.yml`, {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
+    if (dataStorage?.useInstanceStore) {
+      cfnInitConfig.push(InitPackage.yum('mdadm'));
+    }
+    const hostEnv: Record<string, string> = {};
+    if (dataStorage?.useInstanceStore) {
+      hostEnv.INSTANCE_STORE = 'true';
+    }
+    if (dataStorage?.dataVolumeSize !== undefined) {
+      hostEnv.DATA_VOLUME_DEVICE = dataVolumeDeviceName;
+    }
+    cfnInitConfig.push(InfraStack.bootstrapCommand('prepare-host', hostEnv));
+    cfnInitConfig.push(InfraStack.bootstrapCommand('install-opensearch', {
+      DISTRIBUTION_URL: props.distributionUrl,
+      OPENSEARCH_PLUGINS: InfraStack.getPlugins(props).join(' '),
+      // the nodes started after the creation of the stack join the existing cluster instead of bootstrapping it
+      SIGNAL_STACK: scope.stackName,
+      SIGNAL_REGION: scope.region,
+    }));
+
+    // the seed node, or the single node, generates the certificates and applies the security config of the whole cluster
+    const isSeedNode = props.singleNodeCluster || nodeType === 'seed-manager' || nodeType === 'seed-data';
+    // a seed node created before the other nodes cannot wait for a healthy cluster before signaling, e.g. the security index has no
+    // data node to be allocated to, the units applying the security config and the snapshots wait for the other groups instead
+    const clusterFormationTimeout = (nodeGroup?.createdFirst === true) ? (installationTimeout + props.clusterHealthTimeout) * 60 : undefined;
+    if (security.certificates !== undefined) {
+      cfnInitConfig.push(...security.certificates.getInitElements(scope, isSeedNode, (props.domainName === undefined) ? [] : [props.domainName]));
+    }
+    if (security.credentials !== undefined) {
+      cfnInitConfig.push(...security.credentials.getInitElements(scope, props.internalUsers, props.securityRoles));
+    }
 
-        // eslint-disable-next-line max-len
-        cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "node.attr.remote_store.translog.repository: ${scope.stackName}-repo" >> config/opensearch.yml`, {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
+    // cfn-init starts the services once every command has run
+    cfnInitConfig.push(InitFile.fromString('/etc/systemd/system/opensearch.service', renderOpenSearchService(props.minDistribution)));
+    cfnInitConfig.push(InitService.enable('opensearch'));
 
-        // eslint-disable-next-line max-len
-        cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch; echo "node.attr.remote_store.state.repository: ${scope.stackName}-repo" >> config/opensearch.yml`, {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
-      }
+    if (security.credentials !== undefined && isSeedNode) {
+      cfnInitConfig.push(...ClusterCredentials.getSecurityAdminInitElements(clusterFormationTimeout));
     }
 
-    if (props.distributionUrl.includes('artifacts.opensearch.org') && !props.minDistribution) {
-      cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch;sudo -u ec2-user bin/opensearch-plugin install repository-s3 --batch', {
-        cwd: '/home/ec2-user',
-        ignoreErrors: false,
-      }));
-    } else {
-      cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch;sudo -u ec2-user bin/opensearch-plugin install '
-          + `https://ci.opensearch.org/ci/dbc/distribution-build-opensearch/${props.opensearchVersion}/latest/linux/${props.cpuArch}`
-          + `/tar/builds/opensearch/core-plugins/repository-s3-${props.opensearchVersion}.zip --batch`, {
-        cwd: '/home/ec2-user',
-        ignoreErrors: false,
-      }));
+    // environment of the health check, drain, snapshot and stats phases of the bootstrap script
+    const securityEnabled = !props.securityDisabled && !props.minDistribution;
+    const nodeEnv = [
+      `OPENSEARCH_URL=${securityEnabled ? 'https' : 'http'}://localhost:9200`,
+      `HEALTH_STATUS=${props.clusterHealthStatus}`,
+      `HEALTH_TIMEOUT=${props.clusterHealthTimeout * 60}`,
+      `SIGNAL_STACK=${scope.stackName}`,
+      `SIGNAL_RESOURCE=${signalResource}`,
+      `SIGNAL_REGION=${scope.region}`,
+    ];
+    if (security.credentials !== undefined) {
+      nodeEnv.push(`ADMIN_PASSWORD_SECRET=${security.credentials.getAdminPasswordSecret().secretArn}`);
     }
-
-    // add config to disable security if required
-    if (props.securityDisabled && !props.minDistribution) {
-      // eslint-disable-next-line max-len
-      cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch; if [ -d "/home/ec2-user/opensearch/plugins/opensearch-security" ]; then echo "plugins.security.disabled: true" >> config/opensearch.yml; fi',
-        {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
+    if (!props.singleNodeCluster) {
+      nodeEnv.push(`DRAIN_HOOK=${drainHookName}`, `DRAIN_TIMEOUT=${drainTimeout * 60}`);
     }
-
-    // Check if there are any jvm properties being passed
-    // @ts-ignore
-    if (props.jvmSysPropsString.toString() !== 'undefined') {
-      // @ts-ignore
-      cfnInitConfig.push(InitCommand.shellCommand(`set -ex; cd opensearch; jvmSysPropsList=$(echo "${props.jvmSysPropsString.toString()}" | tr ',' '\\n');`
-        + 'for sysProp in $jvmSysPropsList;do echo "-D$sysProp" >> config/jvm.options;done',
-      {
-        cwd: '/home/ec2-user',
-        ignoreErrors: false,
-      }));
+    if (nodeGroup?.waitForNodeCount !== undefined) {
+      nodeEnv.push(`HEALTH_NODE_COUNT=${nodeGroup.waitForNodeCount}`);
     }
-
-    // Check if JVM Heap Memory is set. Default is 1G in the jvm.options file
-    // @ts-ignore
-    if (props.use50PercentHeap) {
-      cfnInitConfig.push(InitCommand.shellCommand(`set -ex; cd opensearch;
-      totalMem=\`expr $(free -g | awk '/^Mem:/{print $2}') + 1\`;
-      heapSizeInGb=\`expr $totalMem / 2\`;
-      if [ $heapSizeInGb -lt 32 ];then minHeap="-Xms"$heapSizeInGb"g";maxHeap="-Xmx"$heapSizeInGb"g";else minHeap="-Xms32g";maxHeap="-Xmx32g";fi
-      sed -i -e "s/^-Xms[0-9a-z]*$/$minHeap/g" config/jvm.options;
-      sed -i -e "s/^-Xmx[0-9a-z]*$/$maxHeap/g" config/jvm.options;`, {
-        cwd: '/home/ec2-user',
-        ignoreErrors: false,
-      }));
+    if (clusterFormationTimeout !== undefined) {
+      nodeEnv.push(`CLUSTER_FORMATION_TIMEOUT=${clusterFormationTimeout}`);
+    }
+    if (nodeGroup?.spotCapacity !== undefined) {
+      nodeEnv.push('SPOT_INSTANCE=true');
     }
+    if (nodeGroup?.scaling !== undefined) {
+      nodeEnv.push(...NodeGroupScaling.getEnvironment());
+    }
+    if (isSeedNode) {
+      nodeEnv.push(...(repositories.restore?.getEnvironment() ?? []), ...(repositories.snapshots?.getEnvironment() ?? []));
+    }
+    nodeEnv.push(...NodeStats.getEnvironment(role, clusterName));
+    cfnInitConfig.push(InitFile.fromString(`${bootstrapDir}/node.env`, nodeEnv.map((line) => `${line}\n`).join('')));
 
-    // @ts-ignore
-    if (props.additionalConfig.toString() !== 'undefined') {
-      // @ts-ignore
-      cfnInitConfig.push(InitCommand.shellCommand(`set -ex; cd opensearch; echo "${props.additionalConfig}">>config/opensearch.yml`,
-        {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
+    // cfn-init, and therefore the signal of the node, only succeeds once the node has joined a cluster with the expected health
+    cfnInitConfig.push(InitFile.fromString('/etc/systemd/system/opensearch-health-check.service',
+      renderHealthCheckService(`${bootstrapDir}/node-bootstrap.sh`, `${bootstrapDir}/node.env`)));
+    cfnInitConfig.push(InitService.enable('opensearch-health-check', { enabled: false, ensureRunning: true }));
+
+    if (repositories.restore !== undefined && isSeedNode) {
+      cfnInitConfig.push(...SnapshotRestore.getInitElements(`${bootstrapDir}/node-bootstrap.sh`, `${bootstrapDir}/node.env`));
+    }
+    if (repositories.snapshots !== undefined && isSeedNode) {
+      // the seed node registers the repository of the cluster once it is healthy
+      cfnInitConfig.push(...repositories.snapshots.getInitElements(scope, bootstrapDir, `${bootstrapDir}/node.env`,
+        clusterFormationTimeout !== undefined));
     }
 
-    // // Startinng OpenSearch based on whether the distribution type is min or bundle
-    if (props.minDistribution) { // using (stackProps.minDistribution) condition is not working when false value is being sent
-      cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch; sudo -u ec2-user nohup ./bin/opensearch >> install.log 2>&1 &',
-        {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
-    } else {
-      cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch; sudo -u ec2-user nohup ./opensearch-tar-install.sh >> install.log 2>&1 &',
-        {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
+    if (!props.singleNodeCluster) {
+      // drains the node when its group terminates it, e.g. during a rolling update or a capacity rebalance, or when its spot instance is interrupted
+      cfnInitConfig.push(InitFile.fromString('/etc/systemd/system/opensearch-drain.service',
+        renderDrainService(`${bootstrapDir}/node-bootstrap.sh`, `${bootstrapDir}/node.env`)));
+      cfnInitConfig.push(InitService.enable('opensearch-drain'));
+    }
+    cfnInitConfig.push(...NodeStats.getInitElements(`${bootstrapDir}/node-bootstrap.sh`, `${bootstrapDir}/node.env`));
+    if (nodeGroup?.scaling !== undefined) {
+      cfnInitConfig.push(...NodeGroupScaling.getInitElements(`${bootstrapDir}/node-bootstrap.sh`, `${bootstrapDir}/node.env`));
     }
 
     // If OpenSearch-Dashboards URL is present
     if (props.dashboardsUrl !== 'undefined') {
-      cfnInitConfig.push(InitCommand.shellCommand(`set -ex;mkdir opensearch-dashboards; curl -L ${props.dashboardsUrl} -o opensearch-dashboards.tar.gz;`
-        + 'tar zxf opensearch-dashboards.tar.gz -C opensearch-dashboards --strip-components=1; chown -R ec2-user:ec2-user opensearch-dashboards;', {
-        cwd: '/home/ec2-user',
-        ignoreErrors: false,
+      // the min distribution has no security plugin but OpenSearch Dashboards keeps its security dashboards plugin
+      const removeSecurityDashboards = props.securityDisabled && !props.minDistribution;
+      cfnInitConfig.push(InitFile.fromString(`${bootstrapDir}/opensearch_dashboards.yml`, renderDashboardsConfig({
+        securityPlugin: !removeSecurityDashboards,
+        additionalConfig: parseAdditionalConfig(props.additionalOsdConfig),
+      })));
+      cfnInitConfig.push(InfraStack.bootstrapCommand('install-dashboards', {
+        DASHBOARDS_URL: props.dashboardsUrl,
+        REMOVE_SECURITY_DASHBOARDS: `${removeSecurityDashboards}`,
       }));
 
-      cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch-dashboards;echo "server.host: 0.0.0.0" >> config/opensearch_dashboards.yml',
-        {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
-
-      if (props.securityDisabled && !props.minDistribution) {
-        cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch-dashboards;'
-          + './bin/opensearch-dashboards-plugin remove securityDashboards --allow-root;'
-          + 'sed -i /^opensearch_security/d config/opensearch_dashboards.yml;'
-          + 'sed -i \'s/https/http/\' config/opensearch_dashboards.yml',
-        {
-          cwd: '/home/ec2-user',
-          ignoreErrors: false,
-        }));
+      if (security.credentials !== undefined) {
+        cfnInitConfig.push(...security.credentials.getDashboardsInitElements(scope));
       }
 
-      // @ts-ignore
-      if (props.additionalOsdConfig.toString() !== 'undefined') {
-        // @ts-ignore
-        cfnInitConfig.push(InitCommand.shellCommand(`set -ex;cd opensearch-dashboards; echo "${props.additionalOsdConfig}">>config/opensearch_dashboards.yml`,
-          {
-            cwd: '/home/ec2-user',
-            ignoreErrors: false,
-          }));
-      }
-
-      // Startinng OpenSearch-Dashboards
-      cfnInitConfig.push(InitCommand.shellCommand('set -ex;cd opensearch-dashboards;'
-        + 'sudo -u ec2-user nohup ./bin/opensearch-dashboards > dashboard_install.log 2>&1 &', {
-        cwd: '/home/ec2-user',
-        ignoreErrors: false,
-      }));
+      cfnInitConfig.push(InitFile.fromString('/etc/systemd/system/opensearch-dashboards.service', renderDashboardsService()));
+      cfnInitConfig.push(InitService.enable('opensearch-dashboards'));
     }
 
     return cfnInitConfig;
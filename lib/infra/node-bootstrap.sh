@@ -0,0 +1,494 @@
+#!/bin/bash
+# Copyright OpenSearch Contributors
+# SPDX-License-Identifier: Apache-2.0
+#
+# The OpenSearch Contributors require contributions made to
+# this file be licensed under the Apache-2.0 license or a
+# compatible open source license.
+
+# Bootstraps an OpenSearch node, run by cfn-init once per phase:
+#   prepare-host        raises vm.max_map_count and mounts the data storage
+#   install-opensearch  installs OpenSearch, its plugins and the rendered config
+#   install-dashboards  installs OpenSearch Dashboards and its rendered config
+#   wait-for-health     waits for the node to join the cluster and for the cluster health, run by a systemd unit. While the stack is
+#                       created, the nodes which are not cluster manager eligible, and a seed node created before them, only wait for
+#                       OpenSearch to start
+#   watch-termination   drains the node once its Auto Scaling group terminates it or its spot instance is interrupted, run by a systemd unit
+#   publish-metrics     publishes the heap, disk and thread pool rejection metrics of the node every minute, run by a systemd unit
+#   collect-stats       sends the node stats and the cluster health to the StatsD listener of the CloudWatch agent, run by a systemd unit
+#   restore-snapshot    restores the latest snapshot of another cluster, run by a systemd unit on the seed node
+#   register-repository registers the snapshot repository and its snapshot management policy, run by a systemd unit on the seed node
+# The config files are rendered by the CDK stack into the directory of this script,
+# cfn-init then starts the opensearch and opensearch-dashboards systemd services.
+# The units running a phase append its output to /var/log/opensearch-bootstrap.log.
+# Bump the version whenever the behaviour of a phase changes.
+BOOTSTRAP_VERSION=15
+
+set -euo pipefail
+
+STAGING_DIR=$(cd "$(dirname "$0")" && pwd)
+INSTALL_DIR=/home/ec2-user
+# seconds an interrupted spot instance drains, its instance is reclaimed two minutes after the interruption notice
+SPOT_DRAIN_TIMEOUT=100
+
+log() {
+  echo "$(date -u '+%Y-%m-%d %H:%M:%S') node-bootstrap v${BOOTSTRAP_VERSION} $*"
+}
+
+# Downloads and extracts a distribution tarball into $INSTALL_DIR/<name>
+install_tarball() {
+  local url=$1 name=$2
+  cd $INSTALL_DIR
+  mkdir -p "$name"
+  curl -sSfL "$url" -o "$name.tar.gz"
+  tar zxf "$name.tar.gz" -C "$name" --strip-components=1
+  chown -R ec2-user:ec2-user "$name"
+}
+
+prepare_host() {
+  echo "vm.max_map_count=262144" >> /etc/sysctl.conf
+  sysctl -p
+
+  if [ "${INSTANCE_STORE:-false}" = "true" ]; then
+    # multiple instance store volumes are striped into a single RAID 0 array
+    local devices count device
+    devices=$(lsblk -d -n -p -o NAME,MODEL | awk '/Instance Storage/ {print $1}')
+    count=$(echo $devices | wc -w)
+    if [ "$count" -eq 0 ]; then log "No NVMe instance store volume found"; exit 1; fi
+    if [ "$count" -gt 1 ]; then
+      mdadm --create /dev/md0 --level=0 --raid-devices=$count $devices --run
+      # the array is assembled again when the instance reboots, the instance store keeps its data unless the instance stops
+      mdadm --detail --scan >> /etc/mdadm.conf
+      dracut -H -f /boot/initramfs-$(uname -r).img $(uname -r)
+      device=/dev/md0
+    else
+      device=$devices
+    fi
+    mkfs.xfs -f $device
+    mkdir -p /mnt/instance-store
+    mount $device /mnt/instance-store
+    echo "UUID=$(blkid -s UUID -o value $device) /mnt/instance-store xfs defaults,nofail 0 2" >> /etc/fstab
+    mkdir -p /mnt/instance-store/opensearch
+    chown -R ec2-user:ec2-user /mnt/instance-store/opensearch
+  fi
+
+  if [ -n "${DATA_VOLUME_DEVICE:-}" ]; then
+    # xen based instances expose the volume as /dev/xvdf instead, wait for either of them to be attached
+    local device=$DATA_VOLUME_DEVICE
+    for i in $(seq 1 60); do
+      if [ -e "$DATA_VOLUME_DEVICE" ]; then break; elif [ -e /dev/xvdf ]; then device=/dev/xvdf; break; fi
+      sleep 1
+    done
+    if ! blkid $device; then mkfs.xfs $device; fi
+    mkdir -p /mnt/data
+    mount $device /mnt/data
+    # the NVMe device names of nitro instances can change across reboots, the file system UUID does not
+    echo "UUID=$(blkid -s UUID -o value $device) /mnt/data xfs defaults,nofail 0 2" >> /etc/fstab
+    mkdir -p /mnt/data/opensearch
+    chown -R ec2-user:ec2-user /mnt/data/opensearch
+  fi
+}
+
+install_opensearch() {
+  install_tarball "$DISTRIBUTION_URL" opensearch
+  cd $INSTALL_DIR/opensearch
+  for plugin in ${OPENSEARCH_PLUGINS:-}; do
+    sudo -u ec2-user bin/opensearch-plugin install "$plugin" --batch
+  done
+
+  install -o ec2-user -g ec2-user -m 644 "$STAGING_DIR/opensearch.yml" config/opensearch.yml
+  if grep -q '^cluster.initial_cluster_manager_nodes:' config/opensearch.yml && ! stack_creating; then
+    # a node replaced once the cluster formed joins it, bootstrapping would form another cluster of its own
+    log "the stack is not being created, removing cluster.initial_cluster_manager_nodes"
+    awk '/^cluster.initial_cluster_manager_nodes:/ {skip=1; next} skip && /^ / {next} {skip=0; print}' config/opensearch.yml \
+      > config/opensearch.yml.new
+    mv config/opensearch.yml.new config/opensearch.yml
+    chown ec2-user:ec2-user config/opensearch.yml
+  fi
+  mkdir -p config/jvm.options.d
+  install -o ec2-user -g ec2-user -m 644 "$STAGING_DIR/cluster.options" config/jvm.options.d/cluster.options
+  if grep -q __HEAP_SIZE__ config/jvm.options.d/cluster.options; then
+    # the instance type is missing from the catalog of the stack, use 50% of the memory of the node
+    local total_mem heap_size
+    total_mem=$(( $(free -g | awk '/^Mem:/{print $2}') + 1 ))
+    heap_size=$(( total_mem / 2 ))
+    if [ $heap_size -gt 32 ]; then heap_size=32; fi
+    sed -i -e "s/__HEAP_SIZE__/${heap_size}g/g" config/jvm.options.d/cluster.options
+  fi
+  if grep -q __AVAILABILITY_ZONE__ config/opensearch.yml; then
+    # zone awareness allocates the replicas of a shard to other zones than its primary
+    sed -i -e "s/__AVAILABILITY_ZONE__/$(imds placement/availability-zone)/g" config/opensearch.yml
+  fi
+  # pick up the unit files written by cfn-init
+  systemctl daemon-reload
+}
+
+install_dashboards() {
+  install_tarball "$DASHBOARDS_URL" opensearch-dashboards
+  cd $INSTALL_DIR/opensearch-dashboards
+  if [ "${REMOVE_SECURITY_DASHBOARDS:-false}" = "true" ]; then
+    ./bin/opensearch-dashboards-plugin remove securityDashboards --allow-root
+  fi
+  install -o ec2-user -g ec2-user -m 644 "$STAGING_DIR/opensearch_dashboards.yml" config/opensearch_dashboards.yml
+  systemctl daemon-reload
+}
+
+# Reads instance metadata with IMDSv2
+imds() {
+  local token
+  token=$(curl -sSf -X PUT http://169.254.169.254/latest/api/token -H "X-aws-ec2-metadata-token-ttl-seconds: 60")
+  curl -sSf -H "X-aws-ec2-metadata-token: $token" "http://169.254.169.254/latest/meta-data/$1"
+}
+
+# Succeeds while the stack is created, and when its status cannot be read so that the cluster still bootstraps
+stack_creating() {
+  local status
+  status=$(aws cloudformation describe-stacks --region "$SIGNAL_REGION" --stack-name "$SIGNAL_STACK" \
+    --query 'Stacks[0].StackStatus' --output text 2>/dev/null || true)
+  if [ -z "$status" ]; then log "could not read the status of the stack $SIGNAL_STACK"; fi
+  [ -z "$status" ] || [ "$status" = "CREATE_IN_PROGRESS" ]
+}
+
+load_admin_password() {
+  if [ -n "${ADMIN_PASSWORD_SECRET:-}" ]; then
+    ADMIN_PASSWORD=$(aws secretsmanager get-secret-value --region "$SIGNAL_REGION" --secret-id "$ADMIN_PASSWORD_SECRET" \
+      --query SecretString --output text | jq -r .password)
+  fi
+}
+
+# Queries the local node, authenticating as the admin user when the security plugin is enabled, extra arguments go to curl.
+# The generated admin certificate is accepted before the security index is allocated, e.g. on a seed node created first
+query_node() {
+  local path=$1 config=$INSTALL_DIR/opensearch/config
+  shift
+  if [ -f "$config/admin.pem" ]; then
+    curl -sk --cert "$config/admin.pem" --key "$config/admin-key.pem" "$@" "$OPENSEARCH_URL$path"
+  elif [ -n "${ADMIN_PASSWORD:-}" ]; then
+    curl -sk -u "admin:$ADMIN_PASSWORD" "$@" "$OPENSEARCH_URL$path"
+  else
+    curl -sk "$@" "$OPENSEARCH_URL$path"
+  fi
+}
+
+# Succeeds when the local node is cluster manager eligible, OpenSearch 1.x names the role master
+is_cluster_manager() {
+  query_node "/_nodes/_local?filter_path=nodes.*.roles" \
+    | jq -e '.nodes | to_entries[0].value.roles | any(. == "cluster_manager" or . == "master")' > /dev/null 2>&1
+}
+
+# Adds (add) or removes (remove) an address from the comma separated addresses excluded from shard allocation, the nodes of several
+# groups drain at the same time. The addresses of the nodes which left the cluster, e.g. reclaimed spot instances, are dropped along,
+# they never remove themselves. The list is read again after each write, a concurrent write of another node is retried
+update_excluded_ips() {
+  local action=$1 ip=$2 excluded nodes ips attempt
+  for attempt in 1 2 3 4 5; do
+    excluded=$(query_node "/_cluster/settings?filter_path=persistent.cluster.routing.allocation.exclude._ip" \
+      | jq -c '(.persistent.cluster.routing.allocation.exclude._ip // "") | split(",") | map(select(. != ""))') || return 1
+    nodes=$(query_node "/_cat/nodes?h=ip&format=json" | jq -c 'map(.ip)') || return 1
+    ips=$(echo "$excluded" | jq -c --argjson nodes "$nodes" --arg ip "$ip" --arg action "$action" \
+      '(map(select(. as $excluded | $excluded != $ip and any($nodes[]; . == $excluded))) + (if $action == "add" then [$ip] else [] end)) as $ips
+      | if ($ips | sort) == sort then empty elif ($ips | length) == 0 then null else ($ips | join(",")) end')
+    if [ -z "$ips" ]; then
+      return 0
+    fi
+    query_node /_cluster/settings -X PUT -H 'Content-Type: application/json' \
+      -d "{\"persistent\":{\"cluster.routing.allocation.exclude._ip\":$ips}}" | grep -q '"acknowledged":true' || return 1
+  done
+  return 1
+}
+
+# Sends a failure signal with the last warnings and errors of the node, cfn-signal keeps the first signal of an instance
+signal_failure() {
+  local message=$1 excerpt
+  excerpt=$(cat /home/ec2-user/opensearch/logs/*.log /home/ec2-user/opensearch/install.log 2>/dev/null \
+    | grep -E 'WARN|ERROR|Exception' | tail -n 5 | cut -c 1-200 | tr '\n' ' ' || true)
+  log "$message: $excerpt"
+  /opt/aws/bin/cfn-signal -e 1 --stack "$SIGNAL_STACK" --resource "$SIGNAL_RESOURCE" --region "$SIGNAL_REGION" \
+    --reason "$(echo "$message. Last log lines: $excerpt" | cut -c 1-1000)" || true
+}
+
+wait_for_health() {
+  load_admin_password
+  local ip health node_count=0 manager=""
+  ip=$(imds local-ipv4)
+  local deadline=$(( $(date +%s) + HEALTH_TIMEOUT )) node_id="" status=""
+  while [ "$(date +%s)" -lt $deadline ]; do
+    node_id=$(query_node "/_nodes/_local?filter_path=nodes.*.name" | jq -r '.nodes // {} | keys[0] // empty' 2>/dev/null || true)
+    if [ -n "$node_id" ] && [ -z "$manager" ]; then
+      if is_cluster_manager; then manager=true; else manager=false; fi
+      # the cluster manager eligible groups are created last, the other nodes cannot join the cluster before
+      if [ "$manager" = "false" ] && stack_creating; then
+        log "node $node_id started, the cluster manager nodes wait for it to join the cluster"
+        return 0
+      fi
+      # the seed node generating the certificates is created before the nodes waiting for them
+      if [ -n "${CLUSTER_FORMATION_TIMEOUT:-}" ] && stack_creating; then
+        log "node $node_id started, the other nodes are created once it signals"
+        return 0
+      fi
+    fi
+    # the node has joined once the elected cluster manager lists it
+    if [ -n "$node_id" ] && query_node "/_cat/nodes?h=id&full_id=true" | grep -q "^$node_id"; then
+      # a replacement node can get the address of a node drained before it
+      update_excluded_ips remove "$ip" || true
+      if [ "$manager" = "true" ]; then
+        # the cluster manager node replaced before this one was excluded from the voting configuration
+        query_node "/_cluster/voting_config_exclusions?wait_for_removal=false" -X DELETE > /dev/null || true
+      fi
+      health=$(query_node "/_cluster/health?wait_for_status=$HEALTH_STATUS&timeout=30s" || true)
+      status=$(echo "$health" | jq -r '.status // empty' 2>/dev/null || true)
+      node_count=$(echo "$health" | jq -r '.number_of_nodes // 0' 2>/dev/null || echo 0)
+      if { [ "$status" = "green" ] || { [ "$status" = "yellow" ] && [ "$HEALTH_STATUS" = "yellow" ]; }; } \
+        && [ "$node_count" -ge "${HEALTH_NODE_COUNT:-0}" ]; then
+        log "node $node_id joined the cluster, cluster health is $status with $node_count nodes"
+        return 0
+      fi
+    fi
+    sleep 10
+  done
+  if [ -z "$node_id" ]; then
+    signal_failure "OpenSearch did not start within $HEALTH_TIMEOUT seconds"
+  elif [ -z "$status" ]; then
+    signal_failure "Node $node_id did not join the cluster within $HEALTH_TIMEOUT seconds"
+  elif [ "$node_count" -lt "${HEALTH_NODE_COUNT:-0}" ]; then
+    signal_failure "Only $node_count of the $HEALTH_NODE_COUNT nodes joined the cluster within $HEALTH_TIMEOUT seconds"
+  else
+    signal_failure "Cluster health is ${status} instead of $HEALTH_STATUS after $HEALTH_TIMEOUT seconds"
+  fi
+  exit 1
+}
+
+# Waits for the cluster health on a seed node created before the other nodes, which signaled its creation once started
+wait_for_cluster() {
+  local deadline=$(( $(date +%s) + CLUSTER_FORMATION_TIMEOUT )) status=""
+  while [ "$(date +%s)" -lt $deadline ]; do
+    status=$(query_node "/_cluster/health?wait_for_status=$HEALTH_STATUS&timeout=30s" | jq -r '.status // empty' 2>/dev/null || true)
+    if [ "$status" = "green" ] || { [ "$status" = "yellow" ] && [ "$HEALTH_STATUS" = "yellow" ]; }; then
+      return 0
+    fi
+    sleep 10
+  done
+  log "Cluster health is ${status:-unknown} instead of $HEALTH_STATUS after $CLUSTER_FORMATION_TIMEOUT seconds"
+  exit 1
+}
+
+# Waits for the node to be relocated, the lifecycle hook of the group then continues with the termination
+drain_node() {
+  local ip=$1 timeout=${2:-$DRAIN_TIMEOUT} shards count stuck
+  local deadline=$(( $(date +%s) + timeout ))
+  # an unreachable cluster, e.g. while the stack is deleted, has nothing left to relocate
+  if ! update_excluded_ips add "$ip"; then
+    log "could not exclude $ip from shard allocation, terminating right away"
+    return 0
+  fi
+  while [ "$(date +%s)" -lt $deadline ]; do
+    shards=$(query_node "/_cat/shards?format=json&h=index,shard,prirep,state,ip,node" \
+      | jq -c --arg ip "$ip" '[.[] | select(.ip == $ip)]' 2>/dev/null || echo '[]')
+    count=$(echo "$shards" | jq length)
+    if [ "$count" = "0" ]; then
+      log "all shards relocated from $ip"
+      return 0
+    fi
+    # once no shard is relocating any more, a shard which cannot move to another node, e.g. when no other node may hold it or
+    # allocation is disabled, would hold the termination until the timeout
+    if ! echo "$shards" | jq -e 'any(.state == "RELOCATING")' > /dev/null; then
+      stuck=$(echo "$shards" | jq -c '(map(select(.state == "STARTED"))[0] // empty)
+        | {index, shard: (.shard | tonumber), primary: (.prirep == "p"), current_node: .node}')
+      if [ -n "$stuck" ] && [ "$(query_node /_cluster/allocation/explain -X POST -H 'Content-Type: application/json' -d "$stuck" \
+        | jq -r '.can_move_to_other_node // empty' 2>/dev/null || true)" = "no" ]; then
+        log "WARNING: $stuck cannot move to another node, terminating with $count shards left on $ip"
+        return 0
+      fi
+    fi
+    log "waiting for $count shards to relocate from $ip"
+    sleep 10
+  done
+  log "shards still allocated to $ip after $timeout seconds"
+}
+
+# Excludes the local node from the voting configuration when it is cluster manager eligible, another node is elected if it is the
+# elected cluster manager. The replacement node clears the exclusion once it joined
+exclude_from_voting() {
+  local node_id response
+  if ! is_cluster_manager; then return 0; fi
+  node_id=$(query_node "/_nodes/_local?filter_path=nodes.*.name" | jq -r '.nodes // {} | keys[0] // empty' 2>/dev/null || true)
+  response=$(query_node "/_cluster/voting_config_exclusions?node_ids=$node_id&timeout=2m" -X POST || true)
+  if echo "$response" | jq -e '.error' > /dev/null 2>&1; then
+    log "could not exclude node $node_id from the voting configuration: $response"
+  else
+    log "excluded node $node_id from the voting configuration"
+  fi
+}
+
+watch_termination() {
+  load_admin_password
+  local state="" interruption="" instance_id ip group
+  until [ "$state" = "Terminated" ]; do
+    sleep 5
+    state=$(imds autoscaling/target-lifecycle-state 2>/dev/null || true)
+    # the interruption notice of a spot instance comes two minutes ahead, whether or not its group terminates it first
+    if [ "${SPOT_INSTANCE:-false}" = "true" ] && interruption=$(imds spot/instance-action 2>/dev/null); then
+      break
+    fi
+  done
+  instance_id=$(imds instance-id)
+  ip=$(imds local-ipv4)
+  if [ -n "$interruption" ]; then
+    log "spot instance $instance_id is interrupted ($interruption), draining $ip"
+    # the replicas of the remaining shards are promoted once the instance is reclaimed
+    drain_node "$ip" "$SPOT_DRAIN_TIMEOUT"
+    sleep infinity
+  fi
+  log "instance $instance_id is terminating, draining $ip"
+  exclude_from_voting
+  drain_node "$ip"
+  group=$(aws autoscaling describe-auto-scaling-instances --region "$SIGNAL_REGION" --instance-ids "$instance_id" \
+    --query 'AutoScalingInstances[0].AutoScalingGroupName' --output text)
+  aws autoscaling complete-lifecycle-action --region "$SIGNAL_REGION" --auto-scaling-group-name "$group" \
+    --lifecycle-hook-name "$DRAIN_HOOK" --instance-id "$instance_id" --lifecycle-action-result CONTINUE
+  # the unit restarts the script, keep waiting for the termination instead of draining again
+  sleep infinity
+}
+
+# Publishes the metrics scaling the Auto Scaling group of the node, the thread pool rejections are cumulative counters of which the
+# rejections of the last minute are published
+publish_metrics() {
+  load_admin_password
+  local instance_id group stats metrics search_rejected=-1 write_rejected=-1
+  instance_id=$(imds instance-id)
+  group=$(aws autoscaling describe-auto-scaling-instances --region "$SIGNAL_REGION" --instance-ids "$instance_id" \
+    --query 'AutoScalingInstances[0].AutoScalingGroupName' --output text)
+  while true; do
+    sleep 60
+    if ! stats=$(query_node "/_nodes/_local/stats/jvm,fs,thread_pool" | jq -ce '.nodes | to_entries[0].value' 2>/dev/null); then
+      log "could not read the stats of the node"
+      continue
+    fi
+    metrics=$(echo "$stats" | jq -c --arg group "$group" --argjson search "$search_rejected" --argjson write "$write_rejected" '
+      def rejected($previous; $current): if $previous < 0 or $current < $previous then 0 else $current - $previous end;
+      [{MetricName: "HeapUsedPercent", Value: .jvm.mem.heap_used_percent, Unit: "Percent"},
+       {MetricName: "DiskUsedPercent", Value: (100 - .fs.total.available_in_bytes * 100 / .fs.total.total_in_bytes), Unit: "Percent"},
+       {MetricName: "SearchRejected", Value: rejected($search; .thread_pool.search.rejected), Unit: "Count"},
+       {MetricName: "WriteRejected", Value: rejected($write; .thread_pool.write.rejected), Unit: "Count"}]
+      | map(. + {Dimensions: [{Name: "AutoScalingGroupName", Value: $group}]})')
+    search_rejected=$(echo "$stats" | jq '.thread_pool.search.rejected')
+    write_rejected=$(echo "$stats" | jq '.thread_pool.write.rejected')
+    aws cloudwatch put-metric-data --region "$SIGNAL_REGION" --namespace "$METRICS_NAMESPACE" --metric-data "$metrics" \
+      || log "could not publish the metrics of the node"
+  done
+}
+
+# Sends the node stats and the cluster health every minute to the StatsD listener of the CloudWatch agent, the node stats tagged with
+# the role of the node and the name of the cluster, the cluster health with the name of the cluster only. The cumulative counters are
+# sent as their increase since the previous scrape, a counter lower than before was reset by a restart of the node
+collect_stats() {
+  load_admin_password
+  local stats health counters gauges lines previous="{}"
+  while true; do
+    sleep 60
+    if ! stats=$(query_node "/_nodes/_local/stats/jvm,fs,indices,thread_pool" | jq -ce '.nodes | to_entries[0].value' 2>/dev/null) \
+      || ! health=$(query_node "/_cluster/health" | jq -ce 'select(.status != null)' 2>/dev/null); then
+      log "could not read the stats of the node"
+      continue
+    fi
+    counters=$(echo "$stats" | jq -c '{
+      "jvm.gc.young.count": .jvm.gc.collectors.young.collection_count,
+      "jvm.gc.young.time_ms": .jvm.gc.collectors.young.collection_time_in_millis,
+      "jvm.gc.old.count": .jvm.gc.collectors.old.collection_count,
+      "jvm.gc.old.time_ms": .jvm.gc.collectors.old.collection_time_in_millis,
+      "thread_pool.search.rejected": .thread_pool.search.rejected,
+      "thread_pool.write.rejected": .thread_pool.write.rejected,
+      "indexing.docs": .indices.indexing.index_total,
+      "search.queries": .indices.search.query_total}')
+    gauges=$(echo "$stats" | jq -c '{
+      "jvm.heap_used_percent": .jvm.mem.heap_used_percent,
+      "fs.used_percent": (100 - .fs.total.available_in_bytes * 100 / .fs.total.total_in_bytes),
+      "thread_pool.search.queue": .thread_pool.search.queue,
+      "thread_pool.write.queue": .thread_pool.write.queue}')
+    lines=$(jq -rn --argjson counters "$counters" --argjson previous "$previous" --argjson gauges "$gauges" --argjson health "$health" \
+      --arg node_tags "#role:$STATS_ROLE,cluster:$STATS_CLUSTER" --arg cluster_tags "#cluster:$STATS_CLUSTER" '
+      ($gauges | to_entries[] | select(.value != null) | "opensearch.\(.key):\(.value)|g|\($node_tags)"),
+      ($counters | to_entries[] | select(.value != null and $previous[.key] != null and .value >= $previous[.key])
+        | "opensearch.\(.key):\(.value - $previous[.key])|c|\($node_tags)"),
+      ({"status": {"green": 0, "yellow": 1, "red": 2}[$health.status], "nodes": $health.number_of_nodes,
+        "data_nodes": $health.number_of_data_nodes, "active_shards": $health.active_shards,
+        "active_primary_shards": $health.active_primary_shards, "relocating_shards": $health.relocating_shards,
+        "initializing_shards": $health.initializing_shards, "unassigned_shards": $health.unassigned_shards}
+        | to_entries[] | "opensearch.cluster.\(.key):\(.value)|g|\($cluster_tags)")')
+    # a single datagram carries the lines of every metric
+    printf '%s\n' "$lines" > /dev/udp/127.0.0.1/"$STATSD_PORT" || log "could not send the stats of the node"
+    previous=$counters
+  done
+}
+
+# Registers the repository of the source cluster read-only and restores its latest successful snapshot, without the system indices.
+# Only the cluster state is updated, a seed node created before the data nodes restores it before they join and recover the shards
+restore_snapshot() {
+  load_admin_password
+  local settings response snapshot
+  settings="{\"bucket\":\"$RESTORE_BUCKET\",\"base_path\":\"$RESTORE_BASE_PATH\",\"region\":\"$SIGNAL_REGION\",\"readonly\":true}"
+  response=$(query_node "/_snapshot/$RESTORE_REPOSITORY" -X PUT -H 'Content-Type: application/json' -d "{\"type\":\"s3\",\"settings\":$settings}")
+  if ! echo "$response" | grep -q '"acknowledged":true'; then
+    signal_failure "Could not register the $RESTORE_REPOSITORY repository: $response"
+    exit 1
+  fi
+  snapshot=$(query_node "/_snapshot/$RESTORE_REPOSITORY/_all" \
+    | jq -r '[.snapshots[]? | select(.state == "SUCCESS")] | sort_by(.end_time_in_millis) | last | .snapshot // empty')
+  if [ -z "$snapshot" ]; then
+    signal_failure "No successful snapshot found in s3://$RESTORE_BUCKET/$RESTORE_BASE_PATH, take a snapshot of the source cluster first"
+    exit 1
+  fi
+  response=$(query_node "/_snapshot/$RESTORE_REPOSITORY/$snapshot/_restore" -X POST -H 'Content-Type: application/json' \
+    -d '{"indices":"*,-.*","include_global_state":false}')
+  if ! echo "$response" | grep -q '"accepted":true'; then
+    signal_failure "Could not restore the snapshot $snapshot: $response"
+    exit 1
+  fi
+  log "restoring the snapshot $snapshot of the $RESTORE_REPOSITORY repository"
+}
+
+# Registers the snapshot repository of the cluster, then creates or updates its snapshot management policy
+register_repository() {
+  load_admin_password
+  if [ -n "${CLUSTER_FORMATION_TIMEOUT:-}" ]; then wait_for_cluster; fi
+  local response policy seq_no primary_term
+  response=$(query_node "/_snapshot/$SNAPSHOT_REPOSITORY" -X PUT -H 'Content-Type: application/json' -d "@$STAGING_DIR/snapshot-repository.json")
+  if ! echo "$response" | grep -q '"acknowledged":true'; then
+    signal_failure "Could not register the $SNAPSHOT_REPOSITORY repository: $response"
+    exit 1
+  fi
+  log "registered the $SNAPSHOT_REPOSITORY repository"
+  if [ -z "${SNAPSHOT_POLICY:-}" ]; then return 0; fi
+  # a replaced seed node finds the policy created before, which is updated with its sequence number
+  policy=$(query_node "/_plugins/_sm/policies/$SNAPSHOT_POLICY")
+  seq_no=$(echo "$policy" | jq -r '._seq_no // empty' 2>/dev/null || true)
+  primary_term=$(echo "$policy" | jq -r '._primary_term // empty' 2>/dev/null || true)
+  if [ -n "$seq_no" ]; then
+    response=$(query_node "/_plugins/_sm/policies/$SNAPSHOT_POLICY?if_seq_no=$seq_no&if_primary_term=$primary_term" -X PUT \
+      -H 'Content-Type: application/json' -d "@$STAGING_DIR/snapshot-policy.json")
+  else
+    response=$(query_node "/_plugins/_sm/policies/$SNAPSHOT_POLICY" -X POST -H 'Content-Type: application/json' \
+      -d "@$STAGING_DIR/snapshot-policy.json")
+  fi
+  if ! echo "$response" | jq -e '._id' > /dev/null 2>&1; then
+    signal_failure "Could not apply the $SNAPSHOT_POLICY snapshot management policy: $response"
+    exit 1
+  fi
+  log "applied the $SNAPSHOT_POLICY snapshot management policy"
+}
+
+phase=${1:-}
+log "$phase"
+case "$phase" in
+  prepare-host) prepare_host ;;
+  install-opensearch) install_opensearch ;;
+  install-dashboards) install_dashboards ;;
+  wait-for-health) wait_for_health ;;
+  watch-termination) watch_termination ;;
+  publish-metrics) publish_metrics ;;
+  collect-stats) collect_stats ;;
+  restore-snapshot) restore_snapshot ;;
+  register-repository) register_repository ;;
+  *) echo "Usage: $0 prepare-host|install-opensearch|install-dashboards|wait-for-health|watch-termination|publish-metrics|collect-stats|restore-snapshot|register-repository"
+    exit 1 ;;
+esac
@@ -0,0 +1,123 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { Duration } from 'aws-cdk-lib';
+import {
+  AdjustmentType, AutoScalingGroup, CfnScalingPolicy, ScalingInterval,
+} from 'aws-cdk-lib/aws-autoscaling';
+import {
+  Alarm, ComparisonOperator, IMetric, MathExpression, Metric,
+} from 'aws-cdk-lib/aws-cloudwatch';
+import { InitElement, InitFile, InitService } from 'aws-cdk-lib/aws-ec2';
+import { renderMetricsService } from '../opensearch-config/config-renderer';
+
+export interface NodeGroupScalingProps {
+  // node count the group starts with, the node count of the group by default
+  readonly minNodeCount?: number,
+  readonly maxNodeCount: number,
+}
+
+// CloudWatch namespace of the metrics published by the nodes, with the Auto Scaling group of the node as dimension
+const metricsNamespace = 'OpenSearch/Nodes';
+
+// Percentages of heap and disk usage adding one node, then two nodes, to the group. The disk steps stay below the
+// default low watermark (85%), beyond which no new shard is allocated to a node
+const heapScaleOutSteps = [75, 85];
+const diskScaleOutSteps = [70, 80];
+
+// Percentage of heap and disk usage under which the group removes a node
+const scaleInThreshold = 40;
+
+// Minutes the metrics stay beyond their thresholds before the group scales, the group scales in slowly since each removed node is drained first
+const scaleOutPeriods = 3;
+const scaleInPeriods = 30;
+
+// Time the group waits after the termination of a removed node before it removes another one, the metrics of the remaining
+// nodes then cover a whole scale-in period with the shards of the removed node
+const scaleInCooldown = Duration.minutes(scaleInPeriods);
+
+/**
+ * Scaling policies of a node group, acting on the heap usage, the disk usage and the search and write thread pool rejections
+ * published every minute by its nodes. A node removed by the group is drained through the termination lifecycle hook of the group
+ * before its termination, like during a rolling update.
+ */
+export class NodeGroupScaling {
+    private readonly nodeAsg: AutoScalingGroup
+
+    constructor(nodeAsg: AutoScalingGroup, dataNodes: boolean, warmup: Duration) {
+      this.nodeAsg = nodeAsg;
+      const heap = this.nodeMetric('HeapUsedPercent', 'Average');
+      const disk = this.nodeMetric('DiskUsedPercent', 'Average');
+      const scaleOut = (id: string, metric: IMetric, steps: number[]) => nodeAsg.scaleOnMetric(id, {
+        metric,
+        // the interval below the first step leaves the group as is
+        scalingSteps: [{ upper: steps[0], change: 0 }, ...steps.map((lower, index): ScalingInterval => ({ lower, change: index + 1 }))],
+        adjustmentType: AdjustmentType.CHANGE_IN_CAPACITY,
+        evaluationPeriods: scaleOutPeriods,
+        estimatedInstanceWarmup: warmup,
+      });
+      scaleOut('heapScaleOut', heap, heapScaleOutSteps);
+      scaleOut('rejectionScaleOut', new MathExpression({
+        expression: 'search + write',
+        usingMetrics: { search: this.nodeMetric('SearchRejected', 'Sum'), write: this.nodeMetric('WriteRejected', 'Sum') },
+        label: 'Rejections',
+        period: Duration.minutes(1),
+      }), [1]);
+      if (dataNodes) {
+        scaleOut('diskScaleOut', disk, diskScaleOutSteps);
+      }
+      // a data node is only removed when the remaining nodes can take both its heap and its disk usage
+      const scaleInAlarm = new Alarm(nodeAsg, 'scaleInAlarm', {
+        metric: dataNodes ? new MathExpression({
+          expression: 'MAX([heap, disk])',
+          usingMetrics: { heap, disk },
+          label: 'Heap or disk usage',
+          period: Duration.minutes(1),
+        }) : heap,
+        threshold: scaleInThreshold,
+        comparisonOperator: ComparisonOperator.LESS_THAN_OR_EQUAL_TO_THRESHOLD,
+        evaluationPeriods: scaleInPeriods,
+      });
+      // unlike a step scaling policy, a simple scaling policy waits for the removed node to be drained and for the cooldown
+      // before it removes another node, so that the group removes one node at a time
+      const scaleInPolicy = new CfnScalingPolicy(nodeAsg, 'scaleIn', {
+        autoScalingGroupName: nodeAsg.autoScalingGroupName,
+        policyType: 'SimpleScaling',
+        adjustmentType: AdjustmentType.CHANGE_IN_CAPACITY,
+        scalingAdjustment: -1,
+        cooldown: `${scaleInCooldown.toSeconds()}`,
+      });
+      scaleInAlarm.addAlarmAction({ bind: () => ({ alarmActionArn: scaleInPolicy.attrArn }) });
+    }
+
+    private nodeMetric(metricName: string, statistic: string): Metric {
+      return new Metric({
+        namespace: metricsNamespace,
+        metricName,
+        dimensionsMap: { AutoScalingGroupName: this.nodeAsg.autoScalingGroupName },
+        statistic,
+        period: Duration.minutes(1),
+      });
+    }
+
+    /**
+     * Returns the variables of the node environment file read by the publish-metrics phase of the bootstrap script
+     */
+    public static getEnvironment(): string[] {
+      return [`METRICS_NAMESPACE=${metricsNamespace}`];
+    }
+
+    /**
+     * Returns the cfn-init elements of the unit publishing the metrics of the node
+     */
+    public static getInitElements(bootstrapScript: string, environmentFile: string): InitElement[] {
+      return [
+        InitFile.fromString('/etc/systemd/system/opensearch-metrics.service', renderMetricsService(bootstrapScript, environmentFile)),
+        InitService.enable('opensearch-metrics'),
+      ];
+    }
+}
@@ -0,0 +1,60 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { InitElement, InitFile, InitService } from 'aws-cdk-lib/aws-ec2';
+import { ProcstatDefinition, StatsdDefinition } from '../cloudwatch/metrics-section';
+import { renderStatsService } from '../opensearch-config/config-renderer';
+
+// Port of the StatsD listener of the CloudWatch agent, which the collect-stats phase of the bootstrap script sends the stats to
+const statsdPort = 8125;
+
+// Command line pattern of the JVM process of OpenSearch
+const opensearchProcessPattern = 'org.opensearch.bootstrap.OpenSearch';
+
+/**
+ * Stats of a node collected by the CloudWatch agent, to the `CWAgent` namespace like the host metrics:
+ * - the `procstat_*` metrics of the OpenSearch JVM process, with the `role` and `cluster` dimensions
+ * - the `opensearch.*` metrics scraped every minute from `_nodes/stats` by the `opensearch-stats` unit and sent to the StatsD
+ *   listener of the agent with the `role` and `cluster` tags, and the `opensearch.cluster.*` metrics scraped from `_cluster/health`
+ *   with the `cluster` tag only, since every node reports the same cluster health
+ */
+export class NodeStats {
+  /**
+   * Returns the procstat and StatsD sections of the CloudWatch agent configuration of a node
+   */
+  public static getMetricsCollected(role: string, clusterName: string): { procstat: ProcstatDefinition[], statsd: StatsdDefinition } {
+    return {
+      procstat: [{
+        pattern: opensearchProcessPattern,
+        measurement: ['cpu_usage', 'memory_rss', 'memory_vms', 'num_threads', 'num_fds', 'pid_count', 'read_bytes', 'write_bytes'],
+        append_dimensions: { role, cluster: clusterName },
+      }],
+      statsd: {
+        service_address: `:${statsdPort}`,
+        metrics_collection_interval: 60,
+        metrics_aggregation_interval: 60,
+      },
+    };
+  }
+
+  /**
+   * Returns the variables of the node environment file read by the collect-stats phase of the bootstrap script
+   */
+  public static getEnvironment(role: string, clusterName: string): string[] {
+    return [`STATSD_PORT=${statsdPort}`, `STATS_ROLE=${role}`, `STATS_CLUSTER=${clusterName}`];
+  }
+
+  /**
+   * Returns the cfn-init elements of the unit sending the stats of the node to the CloudWatch agent
+   */
+  public static getInitElements(bootstrapScript: string, environmentFile: string): InitElement[] {
+    return [
+      InitFile.fromString('/etc/systemd/system/opensearch-stats.service', renderStatsService(bootstrapScript, environmentFile)),
+      InitService.enable('opensearch-stats'),
+    ];
+  }
+}
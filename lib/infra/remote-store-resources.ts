@@ -1,18 +1,78 @@
-import { RemovalPolicy, Stack } from 'aws-cdk-lib';
-import { Bucket } from 'aws-cdk-lib/aws-s3';
-import { Effect, Policy, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import {
+  Arn, ArnFormat, CfnOutput, RemovalPolicy, Stack,
+} from 'aws-cdk-lib';
+import { Bucket, IBucket } from 'aws-cdk-lib/aws-s3';
+import {
+  Effect, IRole, PolicyStatement,
+} from 'aws-cdk-lib/aws-iam';
+import { IKey, Key } from 'aws-cdk-lib/aws-kms';
+import { RemoteStoreRepositories } from '../opensearch-config/config-renderer';
+
+export interface RemoteStoreProps {
+  // existing bucket, a bucket is created otherwise
+  readonly bucketArn?: string,
+  // removal policy of the created bucket, its objects are deleted along with it when destroyed
+  readonly removalPolicy: RemovalPolicy,
+  readonly basePath?: string,
+  // default KMS key of the bucket, which the nodes are granted to use
+  readonly kmsKeyArn?: string,
+  // stores the segments, the translog and the cluster state in their own repositories under the base path
+  readonly separateRepositories: boolean,
+  // infra stack whose remote store a single node attaches to, restoring its cluster state and indices in place of the source cluster
+  readonly restoreFromStack?: string,
+}
+
+// Base path of the remote store within the created bucket
+const defaultBasePath = 'remote-store';
 
 export class RemoteStoreResources {
-    private readonly snapshotS3Bucket: Bucket
+    private readonly snapshotS3Bucket: IBucket
+
+    private readonly encryptionKey?: IKey
 
     private readonly bucketPolicyStatement: PolicyStatement
 
-    constructor(scope: Stack) {
-      this.snapshotS3Bucket = new Bucket(scope, `remote-store-${scope.stackName}`, {
-        removalPolicy: RemovalPolicy.DESTROY,
-        autoDeleteObjects: true,
-        bucketName: `${scope.stackName}`,
+    private readonly repositories: RemoteStoreRepositories
+
+    constructor(scope: Stack, props: RemoteStoreProps) {
+      if (props.kmsKeyArn !== undefined) {
+        this.encryptionKey = Key.fromKeyArn(scope, 'remoteStoreKey', props.kmsKeyArn);
+      }
+      let bucketName: string;
+      if (props.bucketArn !== undefined) {
+        this.snapshotS3Bucket = Bucket.fromBucketAttributes(scope, 'remoteStoreBucket', {
+          bucketArn: props.bucketArn,
+          encryptionKey: this.encryptionKey,
+        });
+        bucketName = Arn.split(props.bucketArn, ArnFormat.NO_RESOURCE_NAME).resource;
+      } else {
+        // the bucket gets a generated name, redeploying the stack after the deletion of a retained bucket would collide with it otherwise
+        this.snapshotS3Bucket = new Bucket(scope, `remote-store-${scope.stackName}`, {
+          removalPolicy: props.removalPolicy,
+          autoDeleteObjects: props.removalPolicy === RemovalPolicy.DESTROY,
+          encryptionKey: this.encryptionKey,
+        });
+        bucketName = this.snapshotS3Bucket.bucketName;
+        new CfnOutput(scope, 'remote-store-bucket', {
+          value: bucketName,
+        });
+      }
+
+      // the indices of the remote cluster state refer to the repositories of the source cluster by name
+      const owner = props.restoreFromStack ?? scope.stackName;
+      // an existing bucket can be shared by several clusters, each one keeps its remote store under its stack name by default
+      const basePath = props.basePath ?? ((props.bucketArn === undefined) ? defaultBasePath : `${owner}/${defaultBasePath}`);
+      const repository = (kind: string) => ({
+        name: `${owner}-${kind}-repo`, bucket: bucketName, basePath: `${basePath}/${kind}`, region: scope.region,
       });
+      if (props.separateRepositories) {
+        this.repositories = { segment: repository('segment'), translog: repository('translog'), state: repository('state') };
+      } else {
+        const sharedRepository = {
+          name: `${owner}-repo`, bucket: bucketName, basePath, region: scope.region,
+        };
+        this.repositories = { segment: sharedRepository, translog: sharedRepository, state: sharedRepository };
+      }
 
       this.bucketPolicyStatement = new PolicyStatement({
         effect: Effect.ALLOW,
@@ -31,7 +91,15 @@ export class RemoteStoreResources {
       });
     }
 
-    public getRemoteStoreBucketPolicy() {
-      return this.bucketPolicyStatement;
+    public grantInstanceRole(role: IRole) {
+      role.addToPrincipalPolicy(this.bucketPolicyStatement);
+      this.encryptionKey?.grantEncryptDecrypt(role);
+    }
+
+    /**
+     * Returns the repositories of the remote store, registered by the nodes from their `node.attr.remote_store.*` attributes
+     */
+    public getRepositories(): RemoteStoreRepositories {
+      return this.repositories;
     }
 }
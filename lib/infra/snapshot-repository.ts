@@ -0,0 +1,149 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import {
+  CfnOutput, Duration, RemovalPolicy, Stack,
+} from 'aws-cdk-lib';
+import { InitElement, InitFile, InitService } from 'aws-cdk-lib/aws-ec2';
+import { IRole } from 'aws-cdk-lib/aws-iam';
+import { Key } from 'aws-cdk-lib/aws-kms';
+import {
+  BlockPublicAccess, Bucket, BucketEncryption, IBucket, StorageClass,
+} from 'aws-cdk-lib/aws-s3';
+import { SnapshotRetentionConfig } from '../cluster-config/cluster-config';
+import { logToBootstrapFile, renderSystemdUnit } from '../opensearch-config/config-renderer';
+import { renderSnapshotPolicy, renderSnapshotRepository } from '../opensearch-config/snapshot-config';
+
+export interface SnapshotRepositoryProps {
+  // existing bucket, a bucket is created otherwise
+  readonly bucketArn?: string,
+  // prefix of the snapshot files within the bucket, defaults to the stack name so that clusters can share an existing bucket
+  readonly basePath?: string,
+  // key encrypting the created bucket, or the default key of the existing bucket
+  readonly kmsKeyArn?: string,
+  // days after which the snapshot files move to S3 Standard-IA, created bucket only
+  readonly infrequentAccessDays?: number,
+  // cron expression of the snapshot management policy, no policy is created unless set
+  readonly schedule?: string,
+  readonly retention?: SnapshotRetentionConfig,
+}
+
+/**
+ * S3 snapshot repository of the cluster, registered by the seed node (or the single node) once the cluster is healthy
+ * along with its snapshot management policy. The created bucket is encrypted with KMS and kept when the stack is deleted
+ * so that the snapshots outlive the cluster. Its lifecycle rules never expire objects since the files of a snapshot are
+ * shared with the following snapshots, the retention of the snapshot management policy deletes the snapshots instead.
+ */
+export class SnapshotRepository {
+    private readonly bucket: IBucket
+
+    private readonly props: SnapshotRepositoryProps
+
+    private readonly basePath: string
+
+    public readonly repositoryName: string
+
+    constructor(scope: Stack, props: SnapshotRepositoryProps) {
+      this.props = props;
+      this.repositoryName = `${scope.stackName}-snapshots`;
+      this.basePath = props.basePath ?? scope.stackName;
+      const encryptionKey = (props.kmsKeyArn === undefined) ? undefined : Key.fromKeyArn(scope, 'snapshotKey', props.kmsKeyArn);
+      if (props.bucketArn === undefined) {
+        this.bucket = new Bucket(scope, 'snapshotBucket', {
+          encryption: BucketEncryption.KMS,
+          encryptionKey,
+          bucketKeyEnabled: true,
+          blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+          enforceSSL: true,
+          lifecycleRules: [{
+            abortIncompleteMultipartUploadAfter: Duration.days(7),
+            transitions: (props.infrequentAccessDays === undefined) ? undefined : [{
+              storageClass: StorageClass.INFREQUENT_ACCESS,
+              transitionAfter: Duration.days(props.infrequentAccessDays),
+            }],
+          }],
+          removalPolicy: RemovalPolicy.RETAIN,
+        });
+      } else {
+        this.bucket = Bucket.fromBucketAttributes(scope, 'snapshotBucket', { bucketArn: props.bucketArn, encryptionKey });
+      }
+      new CfnOutput(scope, 'snapshot-bucket', {
+        value: this.bucket.bucketName,
+      });
+    }
+
+    public grantInstanceRole(role: IRole) {
+      // also grants the use of the KMS key
+      this.bucket.grantReadWrite(role);
+    }
+
+    /**
+     * Grants another cluster read access to the snapshots, the grant is added to the policy of its role
+     */
+    public grantRead(scope: Stack, role: IRole) {
+      const { encryptionKey } = this.bucket;
+      Bucket.fromBucketAttributes(scope, 'snapshotSourceBucket', {
+        bucketArn: this.bucket.bucketArn,
+        bucketName: this.bucket.bucketName,
+        encryptionKey: (encryptionKey === undefined) ? undefined : Key.fromKeyArn(scope, 'snapshotSourceKey', encryptionKey.keyArn),
+      }).grantRead(role);
+    }
+
+    /**
+     * Returns the bucket of the snapshots and their prefix within it
+     */
+    public getLocation(): { bucket: string, basePath: string } {
+      return { bucket: this.bucket.bucketName, basePath: this.basePath };
+    }
+
+    /**
+     * Returns the variables of the node environment file read by the register-repository phase of the bootstrap script
+     */
+    public getEnvironment(): string[] {
+      const environment = [`SNAPSHOT_REPOSITORY=${this.repositoryName}`];
+      if (this.props.schedule !== undefined) {
+        environment.push(`SNAPSHOT_POLICY=${this.repositoryName}`);
+      }
+      return environment;
+    }
+
+    /**
+     * Returns the cfn-init elements of the oneshot unit registering the repository and its policy after the health check of the node
+     * @param stagingDir directory of the bootstrap script, where the request bodies are rendered
+     * @param background whether the unit waits in the background for the other nodes of a seed node created before them,
+     * its failure is then only logged
+     */
+    public getInitElements(scope: Stack, stagingDir: string, environmentFile: string, background = false): InitElement[] {
+      const initElements: InitElement[] = [
+        InitFile.fromString(`${stagingDir}/snapshot-repository.json`, renderSnapshotRepository(this.bucket.bucketName,
+          this.basePath, scope.region)),
+      ];
+      if (this.props.schedule !== undefined) {
+        initElements.push(InitFile.fromString(`${stagingDir}/snapshot-policy.json`, renderSnapshotPolicy({
+          repository: this.repositoryName,
+          schedule: this.props.schedule,
+          retention: this.props.retention,
+        })));
+      }
+      return initElements.concat([
+        InitFile.fromString('/etc/systemd/system/opensearch-snapshot-repository.service', renderSystemdUnit({
+          description: 'Registers the snapshot repository and the snapshot management policy of the OpenSearch cluster',
+          requires: ['opensearch-health-check.service'],
+          after: ['opensearch-health-check.service'],
+          service: {
+            // cfn-init does not wait for a unit running in the background
+            Type: background ? 'simple' : 'oneshot',
+            RemainAfterExit: 'yes',
+            EnvironmentFile: environmentFile,
+            ExecStart: logToBootstrapFile(`${stagingDir}/node-bootstrap.sh register-repository`),
+          },
+        })),
+        // started by cfn-init, a replaced seed node registers the repository again and updates the policy
+        InitService.enable('opensearch-snapshot-repository', { enabled: false, ensureRunning: true }),
+      ]);
+    }
+}
@@ -0,0 +1,64 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { Stack } from 'aws-cdk-lib';
+import { InitElement, InitFile, InitService } from 'aws-cdk-lib/aws-ec2';
+import { IRole } from 'aws-cdk-lib/aws-iam';
+import { logToBootstrapFile, renderSystemdUnit } from '../opensearch-config/config-renderer';
+import { SnapshotRepository } from './snapshot-repository';
+
+/**
+ * Restores the indices of another cluster of the same account and region, e.g. the blue cluster of a blue/green upgrade.
+ * The snapshot repository of the source cluster is registered read-only under the same name and its latest successful snapshot
+ * is restored by the seed node (or the single node) once the cluster is healthy, the system indices and the global state are left out.
+ */
+export class SnapshotRestore {
+    private readonly source: SnapshotRepository
+
+    constructor(source: SnapshotRepository) {
+      this.source = source;
+    }
+
+    public grantInstanceRole(scope: Stack, role: IRole) {
+      this.source.grantRead(scope, role);
+    }
+
+    /**
+     * Returns the variables of the node environment file read by the restore-snapshot phase of the bootstrap script
+     */
+    public getEnvironment(): string[] {
+      const { bucket, basePath } = this.source.getLocation();
+      return [
+        `RESTORE_REPOSITORY=${this.source.repositoryName}`,
+        `RESTORE_BUCKET=${bucket}`,
+        `RESTORE_BASE_PATH=${basePath}`,
+      ];
+    }
+
+    /**
+     * Returns the cfn-init elements of the oneshot unit restoring the snapshot, which runs after the health check of the node
+     * so that the restore starts on a formed cluster and its failure, e.g. when the source cluster has no snapshot yet,
+     * fails the signal of the node.
+     */
+    public static getInitElements(bootstrapScript: string, environmentFile: string): InitElement[] {
+      return [
+        InitFile.fromString('/etc/systemd/system/opensearch-restore.service', renderSystemdUnit({
+          description: 'Restores the latest snapshot of the source cluster',
+          requires: ['opensearch-health-check.service'],
+          after: ['opensearch-health-check.service'],
+          service: {
+            Type: 'oneshot',
+            RemainAfterExit: 'yes',
+            EnvironmentFile: environmentFile,
+            ExecStart: logToBootstrapFile(`${bootstrapScript} restore-snapshot`),
+          },
+        })),
+        // started once by cfn-init, the restored indices are kept across restarts
+        InitService.enable('opensearch-restore', { enabled: false, ensureRunning: true }),
+      ];
+    }
+}
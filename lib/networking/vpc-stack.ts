@@ -15,12 +15,12 @@ import {
 import { Construct } from 'constructs';
 
 export interface vpcProps extends StackProps{
-    cidrBlock: string,
+    cidrBlock?: string,
     maxAzs: number,
-    vpcId: string,
-    securityGroupId: string,
-    serverAccessType: string,
-    restrictServerAccessTo: string,
+    vpcId?: string,
+    securityGroupId?: string,
+    serverAccessType?: string,
+    restrictServerAccessTo?: string,
 }
 
 export class NetworkStack extends Stack {
@@ -0,0 +1,356 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { readFileSync } from 'fs';
+import { dump, load } from 'js-yaml';
+import { join } from 'path';
+import { nodeConfig } from './node-config';
+
+// Replaced by the bootstrap script with 50% of the memory of the node when the instance type is missing from the catalog
+export const heapSizePlaceholder = '__HEAP_SIZE__';
+
+// Replaced by the bootstrap script with the availability zone of the node read from the instance metadata
+export const availabilityZonePlaceholder = '__AVAILABILITY_ZONE__';
+
+// Largest heap allocated with use50PercentHeap, in GiB
+const maxHeapSize = 32;
+
+const configFileDir = __dirname;
+
+export interface RemoteStoreRepository {
+  readonly name: string,
+  readonly bucket: string,
+  readonly basePath: string,
+  readonly region: string,
+}
+
+// Repositories of the segments, the translog and the cluster state of the remote store, which may be the same repository
+export interface RemoteStoreRepositories {
+  readonly segment: RemoteStoreRepository,
+  readonly translog: RemoteStoreRepository,
+  readonly state: RemoteStoreRepository,
+}
+
+export interface ZoneAwarenessOptions {
+  // availability zones of the cluster, the replicas of a shard are allocated to other zones than its primary
+  readonly zones: string[],
+  // leaves the replicas of a lost zone unassigned instead of allocating them to the remaining zones
+  readonly forced: boolean,
+}
+
+export interface OpenSearchConfigOptions {
+  readonly clusterName: string,
+  readonly singleNode: boolean,
+  // values of the Name tag of the cluster manager eligible node groups, discovered with discovery-ec2
+  readonly managerDiscoveryTags?: string[],
+  readonly nodeType?: string,
+  readonly dedicatedIngestNodes?: boolean,
+  readonly dataTier?: { readonly name: string, readonly roles?: string[] },
+  readonly dataPaths?: string[],
+  readonly remoteStore?: RemoteStoreRepositories,
+  // restores the cluster metadata from the remote cluster state when the cluster bootstraps, along with the remote store indices
+  readonly remoteClusterState?: boolean,
+  readonly zoneAwareness?: ZoneAwarenessOptions,
+  // disables the security plugin shipped with the bundle distribution
+  readonly securityDisabled?: boolean,
+  // plugins.security.* settings of the generated certificates
+  readonly securityConfig?: object,
+  // locks the heap in memory, the systemd unit of OpenSearch allows it with LimitMEMLOCK
+  readonly memoryLock?: boolean,
+  readonly additionalConfig?: object,
+}
+
+export interface JvmOptions {
+  readonly use50PercentHeap: boolean,
+  // memory of the instance type, undefined when it is missing from the catalog
+  readonly memoryGiB?: number,
+  // comma-separated list of key=value system properties
+  readonly jvmSysProps?: string,
+}
+
+export interface SystemdUnit {
+  readonly description: string,
+  // units started before this one, and pulled into the same transaction when required
+  readonly after?: string[],
+  readonly requires?: string[],
+  // settings of the [Service] section
+  readonly service: Record<string, string | number>,
+  // the unit is started at boot unless undefined
+  readonly wantedBy?: string,
+}
+
+export interface DashboardsConfigOptions {
+  // whether OpenSearch Dashboards keeps the security dashboards plugin and its https connection to the cluster
+  readonly securityPlugin: boolean,
+  readonly additionalConfig?: object,
+}
+
+/**
+ * Parses a yaml document passed as a string, e.g. the additionalConfig parameter, into the object merged in the rendered config
+ */
+export const parseAdditionalConfig = (config?: string): object | undefined => {
+  if (config === undefined || config.toString() === 'undefined') {
+    return undefined;
+  }
+  return <object>load(config);
+};
+
+/**
+ * Renders the complete `opensearch.yml` of a node, the additional config overrides any generated setting
+ */
+export const renderOpenSearchConfig = (options: OpenSearchConfigOptions): string => {
+  const baseConfigFile = options.singleNode ? 'single-node-base-config.yml' : 'multi-node-base-config.yml';
+  const config: any = load(readFileSync(join(configFileDir, baseConfigFile), 'utf-8'));
+
+  config['cluster.name'] = options.clusterName;
+  if (!options.singleNode) {
+    // use discovery-ec2 to find manager nodes by querying IMDS
+    config['discovery.ec2.tag.Name'] = (options.managerDiscoveryTags ?? []).join(',');
+  }
+
+  if (options.nodeType !== undefined) {
+    Object.assign(config, nodeConfig.get(options.nodeType));
+    if (options.nodeType === 'data' && options.dedicatedIngestNodes) {
+      // ingest pipelines run on the dedicated ingest nodes only, keeping them isolated from the data nodes
+      config['node.roles'] = ['data'];
+    }
+  }
+  if (options.dataPaths !== undefined && options.dataPaths.length > 0) {
+    config['path.data'] = options.dataPaths;
+  }
+  if (options.dataTier !== undefined) {
+    // the tier name is exposed as the `temp` node attribute used by ISM and shard allocation filtering
+    config['node.attr.temp'] = options.dataTier.name;
+    if (options.dataTier.roles !== undefined) {
+      config['node.roles'] = options.dataTier.roles;
+    }
+  }
+
+  if (options.remoteStore !== undefined) {
+    const { remoteStore } = options;
+    (<(keyof RemoteStoreRepositories)[]>['segment', 'translog', 'state']).forEach((kind) => {
+      const repository = remoteStore[kind];
+      config[`node.attr.remote_store.${kind}.repository`] = repository.name;
+      // a repository shared by several kinds is defined once
+      if (config[`node.attr.remote_store.repository.${repository.name}.type`] === undefined) {
+        config[`node.attr.remote_store.repository.${repository.name}.type`] = 's3';
+        config[`node.attr.remote_store.repository.${repository.name}.settings`] = {
+          bucket: repository.bucket,
+          base_path: repository.basePath,
+          region: repository.region,
+        };
+      }
+    });
+    if (options.remoteClusterState) {
+      config['cluster.remote_store.state.enabled'] = true;
+    }
+  }
+
+  if (options.zoneAwareness !== undefined) {
+    config['node.attr.zone'] = availabilityZonePlaceholder;
+    config['cluster.routing.allocation.awareness.attributes'] = 'zone';
+    if (options.zoneAwareness.forced) {
+      config['cluster.routing.allocation.awareness.force.zone.values'] = options.zoneAwareness.zones;
+    }
+  }
+
+  if (options.securityDisabled) {
+    config['plugins.security.disabled'] = true;
+  }
+  if (options.memoryLock) {
+    config['bootstrap.memory_lock'] = true;
+  }
+  Object.assign(config, options.securityConfig, options.additionalConfig);
+
+  return dump(config).toString();
+};
+
+/**
+ * Renders the JVM options of the cluster, installed in `config/jvm.options.d` so that they override the defaults of
+ * the distribution `jvm.options`. Without use50PercentHeap the heap keeps the 1 GiB of the distribution.
+ */
+export const renderJvmOptions = (options: JvmOptions): string => {
+  const lines = ['# JVM options of the OpenSearch cluster, overriding the defaults of config/jvm.options'];
+  if (options.use50PercentHeap) {
+    const heapSize = (options.memoryGiB === undefined) ? heapSizePlaceholder
+      : `${Math.min(Math.floor(options.memoryGiB / 2), maxHeapSize)}g`;
+    lines.push(`-Xms${heapSize}`, `-Xmx${heapSize}`);
+  }
+  if (options.jvmSysProps !== undefined && options.jvmSysProps.toString() !== 'undefined') {
+    options.jvmSysProps.split(',').forEach((sysProp) => lines.push(`-D${sysProp.trim()}`));
+  }
+  return lines.map((line) => `${line}\n`).join('');
+};
+
+/**
+ * Renders the complete `opensearch_dashboards.yml`, the additional config overrides any generated setting
+ */
+export const renderDashboardsConfig = (options: DashboardsConfigOptions): string => {
+  const config: Record<string, unknown> = {
+    'server.host': '0.0.0.0',
+  };
+  if (options.securityPlugin) {
+    // settings of the bundle distribution, the password is replaced on the node when the cluster has generated credentials
+    Object.assign(config, {
+      'opensearch.hosts': ['https://localhost:9200'],
+      'opensearch.ssl.verificationMode': 'none',
+      'opensearch.username': 'kibanaserver',
+      'opensearch.password': 'kibanaserver',
+      'opensearch.requestHeadersWhitelist': ['authorization', 'securitytenant'],
+      'opensearch_security.multitenancy.enabled': true,
+      'opensearch_security.multitenancy.tenants.preferred': ['Private', 'Global'],
+      'opensearch_security.readonly_mode.roles': ['kibana_read_only'],
+      'opensearch_security.cookie.secure': false,
+    });
+  } else {
+    config['opensearch.hosts'] = ['http://localhost:9200'];
+  }
+  Object.assign(config, options.additionalConfig);
+
+  return dump(config).toString();
+};
+
+// File collected by the CloudWatch agent with the output of the units running the bootstrap script and the other scripts
+// of the node, systemd 219 of Amazon Linux 2 only sends the output of a unit to the journal
+export const bootstrapUnitsLogFile = '/var/log/opensearch-bootstrap.log';
+
+/**
+ * Returns the command of a unit appending its output to the log file of the bootstrap units
+ */
+export const logToBootstrapFile = (command: string): string => `/bin/bash -c 'exec ${command} >> ${bootstrapUnitsLogFile} 2>&1'`;
+
+/**
+ * Renders a systemd unit file
+ */
+export const renderSystemdUnit = (unit: SystemdUnit): string => {
+  const lines = ['[Unit]', `Description=${unit.description}`];
+  if (unit.requires !== undefined) {
+    lines.push(`Requires=${unit.requires.join(' ')}`);
+  }
+  if (unit.after !== undefined) {
+    lines.push(`After=${unit.after.join(' ')}`);
+  }
+  lines.push('', '[Service]');
+  Object.entries(unit.service).forEach(([key, value]) => lines.push(`${key}=${value}`));
+  if (unit.wantedBy !== undefined) {
+    lines.push('', '[Install]', `WantedBy=${unit.wantedBy}`);
+  }
+  return lines.map((line) => `${line}\n`).join('');
+};
+
+/**
+ * Renders the systemd unit of OpenSearch, restarted when it fails or gets OOM killed.
+ * The bundle distribution starts through opensearch-tar-install.sh which applies the demo security configuration if needed,
+ * the output of both goes to install.log as before.
+ */
+export const renderOpenSearchService = (minDistribution: boolean): string => renderSystemdUnit({
+  description: 'OpenSearch',
+  after: ['network-online.target'],
+  service: {
+    Type: 'simple',
+    User: 'ec2-user',
+    Group: 'ec2-user',
+    WorkingDirectory: '/home/ec2-user/opensearch',
+    ExecStart: `/bin/bash -c 'exec ${minDistribution ? './bin/opensearch' : './opensearch-tar-install.sh'} >> install.log 2>&1'`,
+    Restart: 'on-failure',
+    RestartSec: 10,
+    LimitNOFILE: 65535,
+    LimitNPROC: 4096,
+    LimitMEMLOCK: 'infinity',
+    LimitAS: 'infinity',
+    LimitFSIZE: 'infinity',
+    // the JVM exits with 143 when stopped with SIGTERM
+    SuccessExitStatus: 143,
+    TimeoutStopSec: 0,
+  },
+  wantedBy: 'multi-user.target',
+});
+
+/**
+ * Renders the systemd unit of OpenSearch Dashboards, restarted when it fails
+ */
+export const renderDashboardsService = (): string => renderSystemdUnit({
+  description: 'OpenSearch Dashboards',
+  after: ['network-online.target', 'opensearch.service'],
+  service: {
+    Type: 'simple',
+    User: 'ec2-user',
+    Group: 'ec2-user',
+    WorkingDirectory: '/home/ec2-user/opensearch-dashboards',
+    ExecStart: "/bin/bash -c 'exec ./bin/opensearch-dashboards >> dashboard_install.log 2>&1'",
+    Restart: 'on-failure',
+    RestartSec: 10,
+    LimitNOFILE: 65535,
+  },
+  wantedBy: 'multi-user.target',
+});
+
+/**
+ * Renders the oneshot unit waiting for the node to join the cluster and for the cluster health before cfn-init completes.
+ * cfn-init fails, and therefore the signal of the node, when the unit fails.
+ */
+export const renderHealthCheckService = (bootstrapScript: string, environmentFile: string): string => renderSystemdUnit({
+  description: 'Waits for the OpenSearch node to join a healthy cluster',
+  requires: ['opensearch.service'],
+  after: ['opensearch.service'],
+  service: {
+    Type: 'oneshot',
+    RemainAfterExit: 'yes',
+    EnvironmentFile: environmentFile,
+    ExecStart: logToBootstrapFile(`${bootstrapScript} wait-for-health`),
+    // the script enforces the health timeout, older systemd versions would stop it after 90 seconds otherwise
+    TimeoutStartSec: 0,
+  },
+});
+
+/**
+ * Renders the unit watching the lifecycle state of the instance, which drains the node before its Auto Scaling group terminates it
+ */
+export const renderDrainService = (bootstrapScript: string, environmentFile: string): string => renderSystemdUnit({
+  description: 'Drains the OpenSearch node before its termination',
+  after: ['opensearch.service'],
+  service: {
+    Type: 'simple',
+    EnvironmentFile: environmentFile,
+    ExecStart: logToBootstrapFile(`${bootstrapScript} watch-termination`),
+    Restart: 'always',
+    RestartSec: 10,
+  },
+  wantedBy: 'multi-user.target',
+});
+
+/**
+ * Renders the unit publishing the metrics of the node every minute, which the step scaling policies of its Auto Scaling group act on
+ */
+export const renderMetricsService = (bootstrapScript: string, environmentFile: string): string => renderSystemdUnit({
+  description: 'Publishes the heap, disk and thread pool rejection metrics of the OpenSearch node to CloudWatch',
+  after: ['opensearch.service'],
+  service: {
+    Type: 'simple',
+    EnvironmentFile: environmentFile,
+    ExecStart: logToBootstrapFile(`${bootstrapScript} publish-metrics`),
+    Restart: 'always',
+    RestartSec: 10,
+  },
+  wantedBy: 'multi-user.target',
+});
+
+/**
+ * Renders the unit sending the node stats and the cluster health every minute to the StatsD listener of the CloudWatch agent
+ */
+export const renderStatsService = (bootstrapScript: string, environmentFile: string): string => renderSystemdUnit({
+  description: 'Sends the stats of the OpenSearch node and the health of its cluster to the CloudWatch agent',
+  after: ['opensearch.service', 'amazon-cloudwatch-agent.service'],
+  service: {
+    Type: 'simple',
+    EnvironmentFile: environmentFile,
+    ExecStart: logToBootstrapFile(`${bootstrapScript} collect-stats`),
+    Restart: 'always',
+    RestartSec: 10,
+  },
+  wantedBy: 'multi-user.target',
+});
@@ -0,0 +1,177 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { InstanceType } from 'aws-cdk-lib/aws-ec2';
+
+export type InstanceArchitecture = 'x64' | 'arm64';
+
+export type InstanceAccelerator = 'gpu' | 'inferentia';
+
+interface InstanceFamily {
+  readonly architecture: InstanceArchitecture,
+  // GiB of memory per vCPU, constant across the sizes of a family
+  readonly memoryPerVcpu: number,
+  readonly localNvme: boolean,
+  readonly accelerator?: InstanceAccelerator,
+}
+
+export interface InstanceSpec {
+  readonly instanceType: string,
+  readonly family: string,
+  readonly size: string,
+  readonly architecture: InstanceArchitecture,
+  readonly vCpus?: number,
+  readonly memoryGiB?: number,
+  readonly localNvme: boolean,
+  readonly accelerator?: InstanceAccelerator,
+}
+
+const instanceCatalog = new Map<string, InstanceFamily>();
+
+// x64 general purpose, compute and memory optimized
+instanceCatalog.set('m5', { architecture: 'x64', memoryPerVcpu: 4, localNvme: false });
+instanceCatalog.set('m5d', { architecture: 'x64', memoryPerVcpu: 4, localNvme: true });
+instanceCatalog.set('m6i', { architecture: 'x64', memoryPerVcpu: 4, localNvme: false });
+instanceCatalog.set('m7i', { architecture: 'x64', memoryPerVcpu: 4, localNvme: false });
+instanceCatalog.set('c5', { architecture: 'x64', memoryPerVcpu: 2, localNvme: false });
+instanceCatalog.set('c6i', { architecture: 'x64', memoryPerVcpu: 2, localNvme: false });
+instanceCatalog.set('c7i', { architecture: 'x64', memoryPerVcpu: 2, localNvme: false });
+instanceCatalog.set('r5', { architecture: 'x64', memoryPerVcpu: 8, localNvme: false });
+instanceCatalog.set('r5d', { architecture: 'x64', memoryPerVcpu: 8, localNvme: true });
+instanceCatalog.set('r6i', { architecture: 'x64', memoryPerVcpu: 8, localNvme: false });
+instanceCatalog.set('r7i', { architecture: 'x64', memoryPerVcpu: 8, localNvme: false });
+
+// x64 storage optimized
+instanceCatalog.set('i3', { architecture: 'x64', memoryPerVcpu: 7.625, localNvme: true });
+instanceCatalog.set('i4i', { architecture: 'x64', memoryPerVcpu: 8, localNvme: true });
+
+// x64 accelerated
+instanceCatalog.set('g5', {
+  architecture: 'x64',
+  memoryPerVcpu: 4,
+  localNvme: true,
+  accelerator: 'gpu',
+});
+instanceCatalog.set('inf1', {
+  architecture: 'x64',
+  memoryPerVcpu: 2,
+  localNvme: false,
+  accelerator: 'inferentia',
+});
+instanceCatalog.set('inf2', {
+  architecture: 'x64',
+  memoryPerVcpu: 4,
+  localNvme: false,
+  accelerator: 'inferentia',
+});
+
+// arm64 (Graviton) general purpose, compute and memory optimized
+instanceCatalog.set('m6g', { architecture: 'arm64', memoryPerVcpu: 4, localNvme: false });
+instanceCatalog.set('m7g', { architecture: 'arm64', memoryPerVcpu: 4, localNvme: false });
+instanceCatalog.set('c6g', { architecture: 'arm64', memoryPerVcpu: 2, localNvme: false });
+instanceCatalog.set('c7g', { architecture: 'arm64', memoryPerVcpu: 2, localNvme: false });
+instanceCatalog.set('r6g', { architecture: 'arm64', memoryPerVcpu: 8, localNvme: false });
+instanceCatalog.set('r6gd', { architecture: 'arm64', memoryPerVcpu: 8, localNvme: true });
+instanceCatalog.set('r7g', { architecture: 'arm64', memoryPerVcpu: 8, localNvme: false });
+
+// arm64 storage optimized
+instanceCatalog.set('im4gn', { architecture: 'arm64', memoryPerVcpu: 4, localNvme: true });
+instanceCatalog.set('is4gen', { architecture: 'arm64', memoryPerVcpu: 6, localNvme: true });
+
+// arm64 accelerated
+instanceCatalog.set('g5g', {
+  architecture: 'arm64',
+  memoryPerVcpu: 2,
+  localNvme: false,
+  accelerator: 'gpu',
+});
+
+const vCpusPerSize = new Map<string, number>([
+  ['medium', 1],
+  ['large', 2],
+  ['xlarge', 4],
+  ['2xlarge', 8],
+  ['3xlarge', 12],
+  ['4xlarge', 16],
+  ['6xlarge', 24],
+  ['8xlarge', 32],
+  ['9xlarge', 36],
+  ['12xlarge', 48],
+  ['16xlarge', 64],
+  ['18xlarge', 72],
+  ['24xlarge', 96],
+  ['32xlarge', 128],
+  ['48xlarge', 192],
+]);
+
+/**
+ * Infers the architecture of an instance family missing from the catalog.
+ * Graviton families carry a `g` in the attributes following the generation number, e.g. r8g, c7gn, x2gd, is4gen.
+ */
+const inferArchitecture = (family: string): InstanceArchitecture => {
+  const attributes = family.replace(/^[a-z]+[0-9]+/, '');
+  return attributes.includes('g') ? 'arm64' : 'x64';
+};
+
+/**
+ * Infers whether an instance family missing from the catalog has NVMe instance store volumes.
+ * Storage optimized families are `i` followed by the generation number, or by a single letter and the generation number,
+ * e.g. i7ie, im4gn, is4gen, unlike the Inferentia families inf1 and inf2. The other families flag local disks with a `d` attribute,
+ * e.g. m6id, c7gd.
+ */
+const inferLocalNvme = (family: string): boolean => {
+  const attributes = family.replace(/^[a-z]+[0-9]+/, '');
+  return /^i[a-z]?[0-9]/.test(family) || attributes.includes('d');
+};
+
+/**
+ * Returns the catalog specification of an instance type, e.g. `r6g.2xlarge`.
+ * Instance types from families missing in the catalog are still described by their architecture,
+ * but without vCPU and memory figures.
+ */
+export const getInstanceSpec = (instanceType: string): InstanceSpec => {
+  const match = /^([a-z]+[0-9]+[a-z-]*)\.([a-z0-9]+)$/.exec(instanceType);
+  if (match === null) {
+    throw new Error(`Invalid instance type ${instanceType} provided, the expected format is <family>.<size>, e.g. r5.xlarge`);
+  }
+  const [, family, size] = match;
+  const vCpus = vCpusPerSize.get(size);
+  const catalogFamily = instanceCatalog.get(family);
+  if (catalogFamily === undefined) {
+    return {
+      instanceType, family, size, architecture: inferArchitecture(family), vCpus, localNvme: inferLocalNvme(family),
+    };
+  }
+  return {
+    instanceType,
+    family,
+    size,
+    architecture: catalogFamily.architecture,
+    vCpus,
+    memoryGiB: (vCpus === undefined) ? undefined : vCpus * catalogFamily.memoryPerVcpu,
+    localNvme: catalogFamily.localNvme,
+    accelerator: catalogFamily.accelerator,
+  };
+};
+
+/**
+ * Returns the InstanceType for the given instance type string after checking it matches the cpu architecture
+ */
+export const getCatalogInstanceType = (instanceType: string, cpuArch: string): InstanceType => {
+  const spec = getInstanceSpec(instanceType);
+  if (spec.architecture !== cpuArch) {
+    throw new Error(`Instance type ${instanceType} is an ${spec.architecture} instance type and cannot be used with cpuArch ${cpuArch}`);
+  }
+  return new InstanceType(instanceType);
+};
+
+/**
+ * Lists the catalog families available for an architecture, used to suggest alternatives in error messages
+ */
+export const getCatalogFamilies = (architecture: InstanceArchitecture, acceleratedOnly = false): string[] => Array.from(instanceCatalog.entries())
+  .filter(([, f]) => f.architecture === architecture && (!acceleratedOnly || f.accelerator !== undefined))
+  .map(([family]) => family);
@@ -5,7 +5,6 @@ The OpenSearch Contributors require contributions made to
 this file be licensed under the Apache-2.0 license or a
 compatible open source license. */
 
-import { InstanceClass, InstanceSize, InstanceType } from 'aws-cdk-lib/aws-ec2';
 import { EbsDeviceVolumeType } from 'aws-cdk-lib/aws-autoscaling';
 
 export const nodeConfig = new Map<string, object>();
@@ -33,117 +32,17 @@ nodeConfig.set('client', {
   'node.roles': [],
 });
 
+nodeConfig.set('ingest', {
+  'node.roles': ['ingest'],
+});
+
 nodeConfig.set('ml', {
   'node.name': 'ml-node',
   'node.roles': ['ml'],
 });
 
-export enum x64Ec2InstanceType {
-  M5_XLARGE = 'm5.xlarge',
-  M5_2XLARGE = 'm5.2xlarge',
-  C5_LARGE = 'c5.large',
-  C5_XLARGE = 'c5.xlarge',
-  R5_LARGE = 'r5.large',
-  R5_XLARGE = 'r5.xlarge',
-  R5_2XLARGE = 'r5.2xlarge',
-  R5_4XLARGE = 'r5.4xlarge',
-  R5_8XLARGE = 'r5.8xlarge',
-  G5_LARGE = 'g5.large',
-  G5_XLARGE = 'g5.xlarge',
-  I3_LARGE = 'i3.large',
-  I3_XLARGE = 'i3.xlarge',
-  I3_2XLARGE = 'i3.2xlarge',
-  I3_4XLARGE = 'i3.4xlarge',
-  I3_8XLARGE = 'i3.8xlarge',
-  INF1_XLARGE = 'inf1.xlarge',
-  INF1_2XLARGE = 'inf1.2xlarge'
-}
-
-export enum arm64Ec2InstanceType {
-  M6G_XLARGE = 'm6g.xlarge',
-  M6G_2XLARGE = 'm6g.2xlarge',
-  C6G_LARGE = 'c6g.large',
-  C6G_XLARGE = 'c6g.xlarge',
-  R6G_LARGE = 'r6g.large',
-  R6G_XLARGE = 'r6g.xlarge',
-  R6G_2XLARGE = 'r6g.2xlarge',
-  R6G_4XLARGE = 'r6g.4xlarge',
-  R6G_8XLARGE = 'r6g.8xlarge',
-  G5G_LARGE = 'g5g.large',
-  G5G_XLARGE = 'g5g.xlarge'
-}
-
-export const getX64InstanceTypes = (instanceType: string) => {
-  switch (instanceType) {
-  case x64Ec2InstanceType.M5_XLARGE:
-    return InstanceType.of(InstanceClass.M5, InstanceSize.XLARGE);
-  case x64Ec2InstanceType.M5_2XLARGE:
-    return InstanceType.of(InstanceClass.M5, InstanceSize.XLARGE2);
-  case x64Ec2InstanceType.C5_LARGE:
-    return InstanceType.of(InstanceClass.C5, InstanceSize.LARGE);
-  case x64Ec2InstanceType.C5_XLARGE:
-    return InstanceType.of(InstanceClass.C5, InstanceSize.XLARGE);
-  case x64Ec2InstanceType.R5_LARGE:
-    return InstanceType.of(InstanceClass.R5, InstanceSize.LARGE);
-  case x64Ec2InstanceType.R5_XLARGE:
-    return InstanceType.of(InstanceClass.R5, InstanceSize.XLARGE);
-  case x64Ec2InstanceType.R5_2XLARGE:
-    return InstanceType.of(InstanceClass.R5, InstanceSize.XLARGE2);
-  case x64Ec2InstanceType.R5_4XLARGE:
-    return InstanceType.of(InstanceClass.R5, InstanceSize.XLARGE4);
-  case x64Ec2InstanceType.R5_8XLARGE:
-    return InstanceType.of(InstanceClass.R5, InstanceSize.XLARGE8);
-  case x64Ec2InstanceType.G5_LARGE:
-    return InstanceType.of(InstanceClass.G5, InstanceSize.LARGE);
-  case x64Ec2InstanceType.G5_XLARGE:
-    return InstanceType.of(InstanceClass.G5, InstanceSize.XLARGE);
-  case x64Ec2InstanceType.I3_LARGE:
-    return InstanceType.of(InstanceClass.I3, InstanceSize.LARGE);
-  case x64Ec2InstanceType.I3_XLARGE:
-    return InstanceType.of(InstanceClass.I3, InstanceSize.XLARGE);
-  case x64Ec2InstanceType.I3_2XLARGE:
-    return InstanceType.of(InstanceClass.I3, InstanceSize.XLARGE2);
-  case x64Ec2InstanceType.I3_4XLARGE:
-    return InstanceType.of(InstanceClass.I3, InstanceSize.XLARGE4);
-  case x64Ec2InstanceType.I3_8XLARGE:
-    return InstanceType.of(InstanceClass.I3, InstanceSize.XLARGE8);
-  case x64Ec2InstanceType.INF1_XLARGE:
-    return InstanceType.of(InstanceClass.INF1, InstanceSize.XLARGE);
-  case x64Ec2InstanceType.INF1_2XLARGE:
-    return InstanceType.of(InstanceClass.INF1, InstanceSize.XLARGE2);
-  default:
-    throw new Error(`Invalid instance type provided, please provide any one the following: ${Object.values(x64Ec2InstanceType)}`);
-  }
-};
-
-export const getArm64InstanceTypes = (instanceType: string) => {
-  switch (instanceType) {
-  case arm64Ec2InstanceType.M6G_XLARGE:
-    return InstanceType.of(InstanceClass.M6G, InstanceSize.XLARGE);
-  case arm64Ec2InstanceType.M6G_2XLARGE:
-    return InstanceType.of(InstanceClass.M6G, InstanceSize.XLARGE2);
-  case arm64Ec2InstanceType.C6G_LARGE:
-    return InstanceType.of(InstanceClass.C6G, InstanceSize.LARGE);
-  case arm64Ec2InstanceType.C6G_XLARGE:
-    return InstanceType.of(InstanceClass.C6G, InstanceSize.XLARGE);
-  case arm64Ec2InstanceType.R6G_LARGE:
-    return InstanceType.of(InstanceClass.R6G, InstanceSize.LARGE);
-  case arm64Ec2InstanceType.R6G_XLARGE:
-    return InstanceType.of(InstanceClass.R6G, InstanceSize.XLARGE);
-  case arm64Ec2InstanceType.R6G_2XLARGE:
-    return InstanceType.of(InstanceClass.R6G, InstanceSize.XLARGE2);
-  case arm64Ec2InstanceType.R6G_4XLARGE:
-    return InstanceType.of(InstanceClass.R6G, InstanceSize.XLARGE4);
-  case arm64Ec2InstanceType.R6G_8XLARGE:
-    return InstanceType.of(InstanceClass.R6G, InstanceSize.XLARGE8);
-  case arm64Ec2InstanceType.G5G_LARGE:
-    return InstanceType.of(InstanceClass.G5G, InstanceSize.LARGE);
-  case arm64Ec2InstanceType.G5G_XLARGE:
-    return InstanceType.of(InstanceClass.G5G, InstanceSize.XLARGE);
-  default:
-    throw new Error(`Invalid instance type provided, please provide any one the following: ${Object.values(arm64Ec2InstanceType)}`);
-  }
-};
+// Root volume size of the cluster manager, seed manager and client nodes
+export const computeNodeStorage = 50;
 
 export const getVolumeType = (volumeType: string) => {
   switch (volumeType) {
@@ -153,7 +52,122 @@ export const getVolumeType = (volumeType: string) => {
     return EbsDeviceVolumeType.GP2;
   case EbsDeviceVolumeType.GP3.valueOf():
     return EbsDeviceVolumeType.GP3;
+  case EbsDeviceVolumeType.IO1.valueOf():
+    return EbsDeviceVolumeType.IO1;
+  case 'io2':
+    // io2 is missing from EbsDeviceVolumeType of aws-autoscaling, the value is passed to CloudFormation as is
+    return <EbsDeviceVolumeType>volumeType;
+  case EbsDeviceVolumeType.ST1.valueOf():
+  case EbsDeviceVolumeType.SC1.valueOf():
+    throw new Error(`${volumeType} volumes cannot be used as root volumes, use dataVolumeSize and dataVolumeType=${volumeType} `
+      + `to store the data on a ${volumeType} volume`);
   default:
-    throw new Error('Invalid volume type provided, please provide any one of the following: standard, gp2, gp3');
+    throw new Error('Invalid volume type provided, please provide any one of the following: standard, gp2, gp3, io1, io2');
+  }
+};
+
+interface VolumeLimits {
+  readonly minSize: number,
+  readonly maxSize: number,
+  readonly iops?: { readonly min: number, readonly max: number, readonly maxPerGiB: number, readonly baseline?: number },
+  // maximum throughput in MiB/s, which cannot exceed a quarter of the provisioned IOPS
+  readonly throughput?: { readonly min: number, readonly max: number, readonly maxPerIops: number },
+}
+
+// Size, IOPS and throughput ranges of the EBS volume types, see https://docs.aws.amazon.com/AWSEC2/latest/UserGuide/ebs-volume-types.html
+const volumeLimits = new Map<string, VolumeLimits>();
+
+volumeLimits.set('standard', { minSize: 1, maxSize: 1024 });
+volumeLimits.set('gp2', { minSize: 1, maxSize: 16384 });
+volumeLimits.set('gp3', {
+  minSize: 1,
+  maxSize: 16384,
+  iops: {
+    min: 3000, max: 16000, maxPerGiB: 500, baseline: 3000,
+  },
+  throughput: { min: 125, max: 1000, maxPerIops: 0.25 },
+});
+volumeLimits.set('io1', {
+  minSize: 4,
+  maxSize: 16384,
+  iops: { min: 100, max: 64000, maxPerGiB: 50 },
+});
+volumeLimits.set('io2', {
+  minSize: 4,
+  maxSize: 16384,
+  iops: { min: 100, max: 64000, maxPerGiB: 500 },
+});
+volumeLimits.set('st1', { minSize: 125, maxSize: 16384 });
+volumeLimits.set('sc1', { minSize: 125, maxSize: 16384 });
+
+/**
+ * Checks the size of an EBS volume against the range of its volume type
+ */
+export const validateVolumeSize = (volumeType: string, size: number) => {
+  const limits = volumeLimits.get(volumeType);
+  if (limits !== undefined && (size < limits.minSize || size > limits.maxSize)) {
+    throw new Error(`${volumeType} volumes must be between ${limits.minSize} and ${limits.maxSize} GiB but found ${size} GiB`);
+  }
+};
+
+/**
+ * Checks the provisioned IOPS of an EBS volume against the range of its volume type and the IOPS per GiB ratio
+ */
+export const validateVolumeIops = (volumeType: string, size: number, iops?: number) => {
+  const limits = volumeLimits.get(volumeType)?.iops;
+  if (limits === undefined) {
+    if (iops !== undefined) {
+      throw new Error(`IOPS can only be provisioned for gp3, io1 and io2 volumes but the volume type is ${volumeType}`);
+    }
+    return;
+  }
+  if (iops === undefined) {
+    if (limits.baseline === undefined) {
+      throw new Error(`IOPS are required for ${volumeType} volumes`);
+    }
+    return;
+  }
+  if (iops < limits.min || iops > limits.max) {
+    throw new Error(`${volumeType} volumes support between ${limits.min} and ${limits.max} IOPS but found ${iops}`);
+  }
+  // the baseline IOPS of gp3 volumes are available whatever their size
+  if (iops > Math.max(size * limits.maxPerGiB, limits.baseline ?? 0)) {
+    throw new Error(`${volumeType} volumes support up to ${limits.maxPerGiB} IOPS per GiB, ${iops} IOPS require at least `
+      + `${Math.ceil(iops / limits.maxPerGiB)} GiB but the volume has ${size} GiB`);
+  }
+};
+
+/**
+ * Checks the provisioned throughput of an EBS volume against the range of its volume type and its IOPS
+ */
+export const validateVolumeThroughput = (volumeType: string, iops?: number, throughput?: number) => {
+  const limits = volumeLimits.get(volumeType)?.throughput;
+  if (throughput === undefined) {
+    return;
+  }
+  if (limits === undefined) {
+    throw new Error(`throughput can only be provisioned for gp3 volumes but the volume type is ${volumeType}`);
+  }
+  if (throughput < limits.min || throughput > limits.max) {
+    throw new Error(`${volumeType} volumes support between ${limits.min} and ${limits.max} MiB/s but found ${throughput}`);
+  }
+  const effectiveIops = iops ?? volumeLimits.get(volumeType)?.iops?.baseline ?? 0;
+  if (throughput > effectiveIops * limits.maxPerIops) {
+    throw new Error(`${volumeType} volumes support up to ${limits.maxPerIops} MiB/s per provisioned IOPS, ${throughput} MiB/s require at least `
+      + `${Math.ceil(throughput / limits.maxPerIops)} IOPS but the volume has ${effectiveIops}`);
+  }
+};
+
+const dataVolumeTypes = ['gp2', 'gp3', 'io1', 'io2', 'st1', 'sc1'];
+
+/**
+ * Returns the volume type of the dedicated data volume, which unlike the root volume can also be a provisioned IOPS
+ * or a throughput optimized HDD volume
+ */
+export const getDataVolumeType = (volumeType: string) => {
+  if (!dataVolumeTypes.includes(volumeType)) {
+    throw new Error(`Invalid data volume type provided, please provide any one of the following: ${dataVolumeTypes.join(', ')}`);
   }
+  // io2 is missing from EbsDeviceVolumeType of aws-autoscaling, the value is passed to CloudFormation as is
+  return <EbsDeviceVolumeType>volumeType;
 };
@@ -0,0 +1,100 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { dump } from 'js-yaml';
+import { InternalUserConfig, SecurityRoleConfig } from '../cluster-config/cluster-config';
+
+// Replaced on the node by the bcrypt hash of the passwords stored in Secrets Manager
+export const adminPasswordHashPlaceholder = '__ADMIN_PASSWORD_HASH__';
+
+export const dashboardsPasswordHashPlaceholder = '__DASHBOARDS_PASSWORD_HASH__';
+
+// Users defined by the cluster itself, the additional internal users cannot reuse their names
+export const reservedUsernames = ['admin', 'kibanaserver'];
+
+// Static roles of the security plugin and the roles of its default `roles.yml` and `roles_mapping.yml`, the additional roles are
+// appended to these files and cannot reuse their names
+export const reservedRoleNames = [
+  'all_access', 'kibana_user', 'kibana_server', 'readall', 'readall_and_monitor', 'own_index', 'manage_snapshots', 'logstash',
+  'kibana_read_only', 'security_rest_api_access', 'security_rest_api_full_access',
+  'alerting_read_access', 'alerting_ack_alerts', 'alerting_full_access', 'anomaly_read_access', 'anomaly_full_access',
+  'index_management_full_access', 'index_management_read_access', 'notebooks_read_access', 'notebooks_full_access',
+  'observability_read_access', 'observability_full_access', 'reports_read_access', 'reports_instances_read_access', 'reports_full_access',
+  'asynchronous_search_read_access', 'asynchronous_search_full_access',
+  'cross_cluster_replication_leader_full_access', 'cross_cluster_replication_follower_full_access',
+  'ml_read_access', 'ml_full_access', 'notifications_read_access', 'notifications_full_access',
+  'snapshot_management_read_access', 'snapshot_management_full_access', 'point_in_time_full_access',
+  'security_analytics_read_access', 'security_analytics_full_access', 'security_analytics_ack_alerts',
+  'flow_framework_read_access', 'flow_framework_full_access', 'knn_read_only_access', 'knn_full_access',
+];
+
+/**
+ * Renders the complete `internal_users.yml`, replacing the demo users of the security plugin
+ */
+export const renderInternalUsers = (users: InternalUserConfig[], includeDashboardsUser: boolean): string => {
+  const internalUsers: Record<string, unknown> = {
+    _meta: {
+      type: 'internalusers',
+      config_version: 2,
+    },
+    admin: {
+      hash: adminPasswordHashPlaceholder,
+      reserved: true,
+      backend_roles: ['admin'],
+      description: 'Admin user',
+    },
+  };
+  if (includeDashboardsUser) {
+    internalUsers.kibanaserver = {
+      hash: dashboardsPasswordHashPlaceholder,
+      reserved: true,
+      description: 'OpenSearch Dashboards server user',
+    };
+  }
+  users.forEach((user) => {
+    internalUsers[user.username] = {
+      hash: user.hash,
+      reserved: false,
+      backend_roles: user.backendRoles ?? [],
+      description: user.description ?? '',
+    };
+  });
+  return dump(internalUsers).toString();
+};
+
+/**
+ * Renders the additional roles appended to the default `roles.yml`
+ */
+export const renderRoles = (roles: SecurityRoleConfig[]): string => {
+  const securityRoles: Record<string, unknown> = {};
+  roles.forEach((role) => {
+    securityRoles[role.name] = {
+      reserved: false,
+      cluster_permissions: role.clusterPermissions ?? [],
+      index_permissions: (role.indexPermissions ?? []).map((permission) => ({
+        index_patterns: permission.indexPatterns,
+        allowed_actions: permission.allowedActions,
+      })),
+    };
+  });
+  return dump(securityRoles).toString();
+};
+
+/**
+ * Renders the mappings of the additional roles appended to the default `roles_mapping.yml`
+ */
+export const renderRolesMapping = (roles: SecurityRoleConfig[]): string => {
+  const rolesMapping: Record<string, unknown> = {};
+  roles.forEach((role) => {
+    rolesMapping[role.name] = {
+      reserved: false,
+      backend_roles: role.backendRoles ?? [],
+      users: role.users ?? [],
+    };
+  });
+  return dump(rolesMapping).toString();
+};
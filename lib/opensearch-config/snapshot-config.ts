@@ -0,0 +1,59 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { SnapshotRetentionConfig } from '../cluster-config/cluster-config';
+
+export interface SnapshotPolicyOptions {
+  readonly repository: string,
+  // cron expression of the snapshots, also used to delete the snapshots beyond the retention
+  readonly schedule: string,
+  readonly retention?: SnapshotRetentionConfig,
+}
+
+/**
+ * Renders the body of the request registering the S3 snapshot repository.
+ * The bucket encrypts the snapshots with its default KMS key, the repository needs no encryption setting.
+ */
+export const renderSnapshotRepository = (bucket: string, basePath: string, region: string): string => JSON.stringify({
+  type: 's3',
+  settings: {
+    bucket,
+    base_path: basePath,
+    region,
+  },
+}, null, 2);
+
+/**
+ * Renders the snapshot management policy taking snapshots of every index but the system indices, the snapshots are
+ * deleted on the same schedule once they exceed the retention. Snapshot management is part of the index management plugin.
+ */
+export const renderSnapshotPolicy = (options: SnapshotPolicyOptions): string => {
+  const schedule = { cron: { expression: options.schedule, timezone: 'UTC' } };
+  const policy: Record<string, unknown> = {
+    description: `Snapshots of every index in the ${options.repository} repository`,
+    creation: { schedule },
+    snapshot_config: {
+      repository: options.repository,
+      indices: '*,-.*',
+      ignore_unavailable: true,
+      include_global_state: false,
+      date_format: 'yyyy-MM-dd-HH-mm',
+      timezone: 'UTC',
+    },
+  };
+  if (options.retention !== undefined) {
+    policy.deletion = {
+      schedule,
+      condition: {
+        max_count: options.retention.maxCount,
+        max_age: options.retention.maxAge,
+        min_count: options.retention.minCount ?? 1,
+      },
+    };
+  }
+  return JSON.stringify(policy, null, 2);
+};
@@ -5,44 +5,140 @@ The OpenSearch Contributors require contributions made to
 this file be licensed under the Apache-2.0 license or a
 compatible open source license. */
 
-import { Stack, StackProps } from 'aws-cdk-lib';
+import {
+  Annotations, CfnOutput, RemovalPolicy, Stack, StackProps,
+} from 'aws-cdk-lib';
 import { EbsDeviceVolumeType } from 'aws-cdk-lib/aws-autoscaling';
 import {
   AmazonLinuxCpuType,
   IVpc,
-  InstanceType,
   SecurityGroup,
 } from 'aws-cdk-lib/aws-ec2';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
 import { Construct } from 'constructs';
 import { dump } from 'js-yaml';
-import { InfraStack } from './infra/infra-stack';
-import { NetworkStack } from './networking/vpc-stack';
 import {
-  arm64Ec2InstanceType,
-  getArm64InstanceTypes,
-  getVolumeType,
-  getX64InstanceTypes,
-  x64Ec2InstanceType,
-} from './opensearch-config/node-config';
+  AutoScalingConfig, clusterParameterDefaults, getDataTierRootVolume, getDataTierStorage, MonitoringConfig, NodeGroupSpotCapacityConfig,
+  RemoteStoreConfig, resolveClusterParameters, SnapshotRepositoryConfig, SpotCapacityConfig,
+} from './cluster-config/cluster-config';
+import { validateClusterParameters } from './cluster-config/cluster-validator';
+import {
+  AutoScalingProps, DataStorageProps, DataTierProps, InfraStack, infraProps, NodeGroupSpotCapacityProps, SpotCapacityProps,
+} from './infra/infra-stack';
+import { MonitoringProps } from './infra/cluster-monitoring';
+import { RemoteStoreProps } from './infra/remote-store-resources';
+import { SnapshotRepositoryProps } from './infra/snapshot-repository';
+import { NetworkStack } from './networking/vpc-stack';
+import { getCatalogInstanceType } from './opensearch-config/instance-catalog';
+import { getDataVolumeType, getVolumeType } from './opensearch-config/node-config';
 
 enum cpuArchEnum{
     X64='x64',
     ARM64='arm64'
 }
 
-const getInstanceType = (instanceType: string, arch: string) => {
-  if (arch === 'x64') {
-    if (instanceType !== 'undefined') {
-      return getX64InstanceTypes(instanceType);
-    }
-    return getX64InstanceTypes('r5.xlarge');
-  }
+// Default instance types per architecture for nodes holding data, i.e. data and ml nodes
+const defaultDataInstanceTypes = { x64: 'r5.xlarge', arm64: 'r6g.xlarge' };
+
+// Default instance types per architecture for cluster manager, seed and client nodes
+const defaultComputeInstanceTypes = { x64: 'c5.xlarge', arm64: 'c6g.xlarge' };
+
+const getInstanceType = (instanceType: string, arch: string, defaultInstanceTypes = defaultDataInstanceTypes) => {
   if (instanceType !== 'undefined') {
-    return getArm64InstanceTypes(instanceType);
+    return getCatalogInstanceType(instanceType, arch);
+  }
+  return getCatalogInstanceType((arch === 'x64') ? defaultInstanceTypes.x64 : defaultInstanceTypes.arm64, arch);
+};
+
+// The numbers of the json parameters may be passed as strings in the json context value
+const toOptionalInt = (value?: number) => ((value === undefined) ? undefined : parseInt(`${value}`, 10));
+
+// Resolves the data volume and instance store parameters, the data volume defaults to gp3 when only its size is set
+const getDataStorage = (size?: number, volumeType?: string, iops?: number, throughput?: number, useInstanceStore?: boolean): DataStorageProps => {
+  if (size === undefined) {
+    return { useInstanceStore: `${useInstanceStore}` === 'true' };
+  }
+  return {
+    dataVolumeSize: parseInt(`${size}`, 10),
+    dataVolumeType: getDataVolumeType(volumeType ?? 'gp3'),
+    dataVolumeIops: toOptionalInt(iops),
+    dataVolumeThroughput: toOptionalInt(throughput),
+    useInstanceStore: `${useInstanceStore}` === 'true',
+  };
+};
+
+// Resolves the remoteStore parameter, the created bucket is destroyed along with the stack by default
+const getRemoteStore = (config: RemoteStoreConfig = {}): RemoteStoreProps => ({
+  bucketArn: config.bucketArn,
+  removalPolicy: (`${config.removalPolicy}` === 'retain') ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+  basePath: config.basePath,
+  kmsKeyArn: config.kmsKeyArn,
+  separateRepositories: `${config.separateRepositories}` === 'true',
+  restoreFromStack: config.restoreFromStack,
+});
+
+// Resolves the snapshotRepository parameter, whose numbers may be passed as strings in the json context value
+const getSnapshotRepository = (config?: SnapshotRepositoryConfig): SnapshotRepositoryProps | undefined => {
+  if (config === undefined) {
+    return undefined;
+  }
+  return {
+    bucketArn: config.bucketArn,
+    basePath: config.basePath,
+    kmsKeyArn: config.kmsKeyArn,
+    infrequentAccessDays: toOptionalInt(config.infrequentAccessDays),
+    schedule: config.schedule,
+    retention: (config.retention === undefined) ? undefined : {
+      maxCount: toOptionalInt(config.retention.maxCount),
+      maxAge: config.retention.maxAge,
+      minCount: toOptionalInt(config.retention.minCount),
+    },
+  };
+};
+
+// Resolves the spotCapacity parameter, the additional instance types are checked against the cpu architecture like the other instance types
+const getSpotCapacity = (config: NodeGroupSpotCapacityConfig | undefined, arch: string): NodeGroupSpotCapacityProps | undefined => {
+  if (config === undefined) {
+    return undefined;
+  }
+  const getGroupSpotCapacity = (group?: SpotCapacityConfig): SpotCapacityProps | undefined => ((group === undefined) ? undefined : {
+    instanceTypes: (group.instanceTypes ?? []).map((instanceType) => getCatalogInstanceType(instanceType, arch)),
+    onDemandBaseCapacity: toOptionalInt(group.onDemandBaseCapacity),
+    onDemandPercentageAboveBaseCapacity: toOptionalInt(group.onDemandPercentageAboveBaseCapacity),
+  });
+  return {
+    data: getGroupSpotCapacity(config.data),
+    client: getGroupSpotCapacity(config.client),
+    ml: getGroupSpotCapacity(config.ml),
+  };
+};
+
+// Resolves the autoScaling parameter, whose numbers may be passed as strings in the json context value
+const getAutoScaling = (config?: AutoScalingConfig): AutoScalingProps | undefined => {
+  if (config === undefined) {
+    return undefined;
   }
-  return getArm64InstanceTypes('r6g.xlarge');
+  const getGroupScaling = (group: keyof AutoScalingConfig) => {
+    const groupConfig = config[group];
+    return (groupConfig === undefined) ? undefined : {
+      minNodeCount: toOptionalInt(groupConfig.minNodeCount),
+      maxNodeCount: parseInt(`${groupConfig.maxNodeCount}`, 10),
+    };
+  };
+  return {
+    data: getGroupScaling('data'),
+    client: getGroupScaling('client'),
+    ml: getGroupScaling('ml'),
+    ingest: getGroupScaling('ingest'),
+  };
 };
 
+// Resolves the monitoring parameter, the alarms notify nobody without it
+const getMonitoring = (config?: MonitoringConfig): MonitoringProps | undefined => ((config === undefined) ? undefined : {
+  alarmTopicArn: config.alarmTopicArn,
+  alarmEmails: config.alarmEmails ?? [],
+});
+
 export class OsClusterEntrypoint {
     public stacks: Stack[] = [];
 
@@ -60,112 +156,97 @@ export class OsClusterEntrypoint {
       let infraStackName: string;
       let dataNodeStorage: number;
       let mlNodeStorage: number;
+      let ingestNodeStorage: number;
       let ymlConfig: string = 'undefined';
       let osdYmlConfig: string = 'undefined';
-      let dataEc2InstanceType: InstanceType;
-      let mlEc2InstanceType: InstanceType;
       let volumeType: EbsDeviceVolumeType;
 
-      const x64InstanceTypes: string[] = Object.keys(x64Ec2InstanceType);
-      const arm64InstanceTypes: string[] = Object.keys(arm64Ec2InstanceType);
-      const vpcId: string = scope.node.tryGetContext('vpcId');
-      const securityGroupId = scope.node.tryGetContext('securityGroupId');
-      const cidrRange = scope.node.tryGetContext('cidr');
-      const restrictServerAccessTo = scope.node.tryGetContext('restrictServerAccessTo');
-      const serverAccessType = scope.node.tryGetContext('serverAccessType');
-
-      const distVersion = `${scope.node.tryGetContext('distVersion')}`;
-      if (distVersion.toString() === 'undefined') {
-        throw new Error('Please provide the OS distribution version');
+      const validationResult = validateClusterParameters(resolveClusterParameters(scope));
+      if (validationResult.errors.length > 0) {
+        throw new Error(`Invalid cluster parameters:\n${validationResult.errors.join('\n')}`);
       }
+      const clusterParams = validationResult.parameters;
 
-      const securityDisabled = `${scope.node.tryGetContext('securityDisabled')}`;
-      if (securityDisabled !== 'true' && securityDisabled !== 'false') {
-        throw new Error('securityEnabled parameter is required to be set as - true or false');
-      }
-      const security = securityDisabled === 'true';
+      const {
+        vpcId, securityGroupId, restrictServerAccessTo, serverAccessType,
+      } = clusterParams;
+      const cidrRange = clusterParams.cidr;
 
-      const minDistribution = `${scope.node.tryGetContext('minDistribution')}`;
-      if (minDistribution !== 'true' && minDistribution !== 'false') {
-        throw new Error('minDistribution parameter is required to be set as - true or false');
-      }
-      const minDist = minDistribution === 'true';
+      const distVersion = `${clusterParams.distVersion}`;
 
-      const distributionUrl = `${scope.node.tryGetContext('distributionUrl')}`;
-      if (distributionUrl.toString() === 'undefined') {
-        throw new Error('distributionUrl parameter is required. Please provide the artifact url to download');
-      }
+      const security = `${clusterParams.securityDisabled}` === 'true';
 
-      const dashboardUrl = `${scope.node.tryGetContext('dashboardsUrl')}`;
+      const minDist = `${clusterParams.minDistribution}` === 'true';
 
-      const cpuArch = `${scope.node.tryGetContext('cpuArch')}`;
+      const distributionUrl = `${clusterParams.distributionUrl}`;
 
-      const dataInstanceType = `${scope.node.tryGetContext('dataInstanceType')}`;
-      const mlInstanceType = `${scope.node.tryGetContext('mlInstanceType')}`;
+      const dashboardUrl = `${clusterParams.dashboardsUrl}`;
 
-      if (cpuArch.toString() === 'undefined') {
-        throw new Error('cpuArch parameter is required. The provided value should be either x64 or arm64, any other value is invalid');
-        // @ts-ignore
-      } else if (Object.values(cpuArchEnum).includes(cpuArch.toString())) {
-        if (cpuArch.toString() === cpuArchEnum.X64) {
-          instanceCpuType = AmazonLinuxCpuType.X86_64;
-          dataEc2InstanceType = getInstanceType(dataInstanceType, cpuArch.toString());
-          mlEc2InstanceType = getInstanceType(mlInstanceType, cpuArch.toString());
-        } else {
-          instanceCpuType = AmazonLinuxCpuType.ARM_64;
-          dataEc2InstanceType = getInstanceType(dataInstanceType, cpuArch.toString());
-          mlEc2InstanceType = getInstanceType(mlInstanceType, cpuArch.toString());
-        }
+      const cpuArch = `${clusterParams.cpuArch}`;
+
+      const dataInstanceType = `${clusterParams.dataInstanceType}`;
+      const mlInstanceType = `${clusterParams.mlInstanceType}`;
+      const managerInstanceType = `${clusterParams.managerInstanceType}`;
+      const clientInstanceType = `${clusterParams.clientInstanceType}`;
+      const ingestInstanceType = `${clusterParams.ingestInstanceType}`;
+
+      if (cpuArch === cpuArchEnum.X64) {
+        instanceCpuType = AmazonLinuxCpuType.X86_64;
       } else {
-        throw new Error('Please provide a valid cpu architecture. The valid value can be either x64 or arm64');
+        instanceCpuType = AmazonLinuxCpuType.ARM_64;
       }
+      const dataEc2InstanceType = getInstanceType(dataInstanceType, cpuArch);
+      const mlEc2InstanceType = getInstanceType(mlInstanceType, cpuArch);
+      const managerEc2InstanceType = getInstanceType(managerInstanceType, cpuArch, defaultComputeInstanceTypes);
+      const clientEc2InstanceType = getInstanceType(clientInstanceType, cpuArch, defaultComputeInstanceTypes);
+      const ingestEc2InstanceType = getInstanceType(ingestInstanceType, cpuArch, defaultComputeInstanceTypes);
 
-      const singleNodeCluster = `${scope.node.tryGetContext('singleNodeCluster')}`;
+      const singleNodeCluster = `${clusterParams.singleNodeCluster}`;
       const isSingleNode = singleNodeCluster === 'true';
 
-      const managerNodeCount = `${scope.node.tryGetContext('managerNodeCount')}`;
+      const managerNodeCount = `${clusterParams.managerNodeCount}`;
       if (managerNodeCount.toString() === 'undefined') {
-        managerCount = 3;
+        managerCount = clusterParameterDefaults.managerNodeCount;
       } else {
         managerCount = parseInt(managerNodeCount, 10);
       }
 
-      const dataNodeCount = `${scope.node.tryGetContext('dataNodeCount')}`;
+      const dataNodeCount = `${clusterParams.dataNodeCount}`;
       if (dataNodeCount.toString() === 'undefined') {
-        dataCount = 2;
+        dataCount = clusterParameterDefaults.dataNodeCount;
       } else {
         dataCount = parseInt(dataNodeCount, 10);
       }
 
-      const clientNodeCount = `${scope.node.tryGetContext('clientNodeCount')}`;
+      const clientNodeCount = `${clusterParams.clientNodeCount}`;
       if (clientNodeCount.toString() === 'undefined') {
-        clientCount = 0;
+        clientCount = clusterParameterDefaults.clientNodeCount;
       } else {
         clientCount = parseInt(clientNodeCount, 10);
       }
 
-      const ingestNodeCount = `${scope.node.tryGetContext('ingestNodeCount')}`;
+      const ingestNodeCount = `${clusterParams.ingestNodeCount}`;
       if (ingestNodeCount.toString() === 'undefined') {
-        ingestCount = 0;
+        ingestCount = clusterParameterDefaults.ingestNodeCount;
       } else {
-        ingestCount = parseInt(clientNodeCount, 10);
+        ingestCount = parseInt(ingestNodeCount, 10);
       }
 
-      const mlNodeCount = `${scope.node.tryGetContext('mlNodeCount')}`;
+      const mlNodeCount = `${clusterParams.mlNodeCount}`;
       if (mlNodeCount.toString() === 'undefined') {
-        mlCount = 0;
+        mlCount = clusterParameterDefaults.mlNodeCount;
       } else {
         mlCount = parseInt(mlNodeCount, 10);
       }
 
-      const dataSize = `${scope.node.tryGetContext('dataNodeStorage')}`;
+      const dataSize = `${clusterParams.dataNodeStorage}`;
       if (dataSize === 'undefined') {
-        dataNodeStorage = 100;
+        dataNodeStorage = clusterParameterDefaults.dataNodeStorage;
       } else {
         dataNodeStorage = parseInt(dataSize, 10);
       }
 
-      const inputVolumeType = `${scope.node.tryGetContext('storageVolumeType')}`;
+      const inputVolumeType = `${clusterParams.storageVolumeType}`;
       if (inputVolumeType.toString() === 'undefined') {
         // use gp2 volume by default
         volumeType = getVolumeType('gp2');
@@ -173,48 +254,76 @@ export class OsClusterEntrypoint {
         volumeType = getVolumeType(inputVolumeType);
       }
 
-      const mlSize = `${scope.node.tryGetContext('mlNodeStorage')}`;
+      const mlSize = `${clusterParams.mlNodeStorage}`;
       if (mlSize === 'undefined') {
-        mlNodeStorage = 100;
+        mlNodeStorage = clusterParameterDefaults.mlNodeStorage;
       } else {
         mlNodeStorage = parseInt(mlSize, 10);
       }
 
-      const jvmSysProps = `${scope.node.tryGetContext('jvmSysProps')}`;
+      const ingestSize = `${clusterParams.ingestNodeStorage}`;
+      if (ingestSize === 'undefined') {
+        ingestNodeStorage = clusterParameterDefaults.ingestNodeStorage;
+      } else {
+        ingestNodeStorage = parseInt(ingestSize, 10);
+      }
+
+      const jvmSysProps = `${clusterParams.jvmSysProps}`;
 
-      const osConfig = `${scope.node.tryGetContext('additionalConfig')}`;
-      if (osConfig.toString() !== 'undefined') {
-        try {
-          const jsonObj = JSON.parse(osConfig);
-          ymlConfig = dump(jsonObj);
-        } catch (e) {
-          throw new Error(`Encountered following error while parsing additionalConfig json parameter: ${e}`);
-        }
+      if (clusterParams.additionalConfig !== undefined) {
+        ymlConfig = dump(clusterParams.additionalConfig);
       }
 
-      const osdConfig = `${scope.node.tryGetContext('additionalOsdConfig')}`;
-      if (osdConfig.toString() !== 'undefined') {
-        try {
-          const jsonObj = JSON.parse(osdConfig);
-          osdYmlConfig = dump(jsonObj);
-        } catch (e) {
-          throw new Error(`Encountered following error while parsing additionalOsdConfig json parameter: ${e}`);
-        }
+      if (clusterParams.additionalOsdConfig !== undefined) {
+        osdYmlConfig = dump(clusterParams.additionalOsdConfig);
       }
 
-      const suffix = `${scope.node.tryGetContext('suffix')}`;
-      const networkStackSuffix = `${scope.node.tryGetContext('networkStackSuffix')}`;
+      const suffix = `${clusterParams.suffix}`;
+      const networkStackSuffix = `${clusterParams.networkStackSuffix}`;
 
-      const use50heap = `${scope.node.tryGetContext('use50PercentHeap')}`;
+      const use50heap = `${clusterParams.use50PercentHeap}`;
       const use50PercentHeap = use50heap === 'true';
 
-      const nlbScheme = `${scope.node.tryGetContext('isInternal')}`;
+      const memoryLock = `${clusterParams.memoryLock}` === 'true';
+
+      const clusterHealthStatus = (`${clusterParams.clusterHealthStatus}` === 'undefined') ? clusterParameterDefaults.clusterHealthStatus
+        : `${clusterParams.clusterHealthStatus}`;
+      const clusterHealthTimeout = toOptionalInt(clusterParams.clusterHealthTimeout) ?? clusterParameterDefaults.clusterHealthTimeout;
+
+      const logRetention: RetentionDays = toOptionalInt(clusterParams.logRetentionDays) ?? clusterParameterDefaults.logRetentionDays;
+
+      const nlbScheme = `${clusterParams.isInternal}`;
       const isInternal = nlbScheme === 'true';
 
-      const remoteStore = `${scope.node.tryGetContext('enableRemoteStore')}`;
+      const remoteStore = `${clusterParams.enableRemoteStore}`;
       const enableRemoteStore = remoteStore === 'true';
-
-      const customRoleArn = `${scope.node.tryGetContext('customRoleArn')}`;
+      const zoneCount = toOptionalInt(clusterParams.zoneCount);
+      const remoteStoreProps = getRemoteStore(clusterParams.remoteStore);
+
+      const snapshotRepositoryProps = getSnapshotRepository(clusterParams.snapshotRepository);
+      const greenDistributionUrl = `${clusterParams.greenDistributionUrl}`;
+
+      const customRoleArn = `${clusterParams.customRoleArn}`;
+
+      const dataStorage = getDataStorage(clusterParams.dataVolumeSize, clusterParams.dataVolumeType, clusterParams.dataVolumeIops,
+        clusterParams.dataVolumeThroughput, clusterParams.useInstanceStore);
+
+      const dataTiers: DataTierProps[] = (clusterParams.dataTiers ?? []).map((tier) => {
+        const tierVolume = getDataTierRootVolume(tier, clusterParams);
+        const tierStorage = getDataTierStorage(tier, clusterParams);
+        return {
+          name: tier.name,
+          nodeCount: parseInt(`${tier.nodeCount}`, 10),
+          instanceType: (tier.instanceType === undefined) ? dataEc2InstanceType : getInstanceType(tier.instanceType, cpuArch),
+          storage: (tier.storage === undefined) ? dataNodeStorage : parseInt(`${tier.storage}`, 10),
+          volumeType: (tier.volumeType === undefined) ? volumeType : getVolumeType(tier.volumeType),
+          iops: toOptionalInt(tierVolume.iops),
+          throughput: toOptionalInt(tierVolume.throughput),
+          roles: tier.roles,
+          dataStorage: getDataStorage(tierStorage.dataVolumeSize, tierStorage.dataVolumeType, tierStorage.dataVolumeIops,
+            tierStorage.dataVolumeThroughput, tierStorage.useInstanceStore),
+        };
+      });
 
       let networkStackName = 'opensearch-network-stack';
       if (networkStackSuffix !== 'undefined') {
@@ -223,7 +332,7 @@ export class OsClusterEntrypoint {
 
       const network = new NetworkStack(scope, networkStackName, {
         cidrBlock: cidrRange,
-        maxAzs: 3,
+        maxAzs: zoneCount ?? 3,
         vpcId,
         securityGroupId,
         serverAccessType,
@@ -243,8 +352,7 @@ export class OsClusterEntrypoint {
         infraStackName = `opensearch-infra-stack-${suffix}`;
       }
 
-      // @ts-ignore
-      const infraStack = new InfraStack(scope, infraStackName, {
+      const blueProps: infraProps = {
         vpc: this.vpc,
         securityDisabled: security,
         opensearchVersion: distVersion,
@@ -253,6 +361,9 @@ export class OsClusterEntrypoint {
         cpuType: instanceCpuType,
         dataEc2InstanceType,
         mlEc2InstanceType,
+        managerEc2InstanceType,
+        clientEc2InstanceType,
+        ingestEc2InstanceType,
         dashboardsUrl: dashboardUrl,
         dataNodeCount: dataCount,
         distributionUrl,
@@ -265,19 +376,80 @@ export class OsClusterEntrypoint {
         singleNodeCluster: isSingleNode,
         dataNodeStorage,
         mlNodeStorage,
+        ingestNodeStorage,
         jvmSysPropsString: jvmSysProps,
         additionalConfig: ymlConfig,
         additionalOsdConfig: osdYmlConfig,
         use50PercentHeap,
+        memoryLock,
+        clusterHealthStatus,
+        clusterHealthTimeout,
+        logRetention,
+        jsonLogs: `${clusterParams.jsonLogs}` === 'true',
         isInternal,
+        zoneCount,
+        forceZoneAwareness: `${clusterParams.forceZoneAwareness}` === 'true',
         enableRemoteStore,
+        remoteStore: remoteStoreProps,
         storageVolumeType: volumeType,
+        storageIops: toOptionalInt(clusterParams.storageIops),
+        storageThroughput: toOptionalInt(clusterParams.storageThroughput),
         customRoleArn,
+        dataTiers,
+        dataStorage,
+        spotCapacity: getSpotCapacity(clusterParams.spotCapacity, cpuArch),
+        autoScaling: getAutoScaling(clusterParams.autoScaling),
+        generateCertificates: `${clusterParams.generateCertificates}` === 'true',
+        domainName: clusterParams.domainName,
+        hostedZoneId: clusterParams.hostedZoneId,
+        hostedZoneName: clusterParams.hostedZoneName,
+        certificateArn: clusterParams.certificateArn,
+        adminPasswordSecretArn: clusterParams.adminPasswordSecretArn,
+        internalUsers: clusterParams.internalUsers ?? [],
+        securityRoles: clusterParams.securityRoles ?? [],
+        // the green cluster of a blue/green upgrade restores the snapshots of the blue cluster from its repository
+        snapshotRepository: snapshotRepositoryProps ?? ((greenDistributionUrl === 'undefined') ? undefined : {}),
+        monitoring: getMonitoring(clusterParams.monitoring),
         ...props,
-      });
+      };
+      const infraStack = new InfraStack(scope, infraStackName, blueProps);
 
       infraStack.addDependency(network);
+      // reported by cdk synth and deploy along with the other warnings of the cluster
+      validationResult.warnings.forEach((warning) => Annotations.of(infraStack).addWarning(warning));
 
       this.stacks.push(infraStack);
+
+      if (greenDistributionUrl !== 'undefined') {
+        // blue/green upgrade: a second cluster running another distribution restores the latest snapshot of the blue cluster
+        const greenProps: infraProps = {
+          ...blueProps,
+          distributionUrl: greenDistributionUrl,
+          opensearchVersion: clusterParams.greenDistVersion ?? distVersion,
+          dashboardsUrl: `${clusterParams.greenDashboardsUrl}`,
+          // both clusters cannot share the same record, the green cluster is served under the green subdomain
+          domainName: (blueProps.domainName === undefined) ? undefined : `green.${blueProps.domainName}`,
+          // the green subdomain gets its own certificate, validated through the hosted zone unless provided
+          certificateArn: clusterParams.greenCertificateArn,
+          restoreFrom: infraStack.snapshotRepository,
+          // the green cluster keeps its remote store next to the one of the blue cluster in an existing bucket
+          remoteStore: {
+            ...remoteStoreProps,
+            basePath: (remoteStoreProps.basePath === undefined) ? undefined : `${remoteStoreProps.basePath}-green`,
+            restoreFromStack: undefined,
+          },
+          // the green cluster snapshots to its own bucket, or next to the snapshots of the blue cluster in an existing bucket
+          snapshotRepository: (snapshotRepositoryProps === undefined) ? undefined : {
+            ...snapshotRepositoryProps,
+            basePath: (snapshotRepositoryProps.basePath === undefined) ? undefined : `${snapshotRepositoryProps.basePath}-green`,
+          },
+        };
+        const greenStack = new InfraStack(scope, `${infraStackName}-green`, greenProps);
+        greenStack.addDependency(infraStack);
+        new CfnOutput(greenStack, 'blue-loadbalancer-url', {
+          value: infraStack.loadBalancerUrl,
+        });
+        this.stacks.push(greenStack);
+      }
     }
 }
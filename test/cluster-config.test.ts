@@ -0,0 +1,77 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { App } from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { join } from 'path';
+import { OsClusterEntrypoint } from '../lib/os-cluster-entrypoint';
+
+test('Test multi-node cluster from cluster config file with context override', () => {
+  const app = new App({
+    context: {
+      clusterConfigFile: join(__dirname, 'resources/cluster-config.yml'),
+      dataNodeCount: 4,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  expect(testStack.stacks).toHaveLength(2);
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.resourceCountIs('AWS::ElasticLoadBalancingV2::Listener', 1);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    MaxSize: '4',
+    MinSize: '4',
+    LaunchConfigurationName: {
+      Ref: 'dataNodeAsgLaunchConfigA78D3BFC',
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'r5.2xlarge',
+    IamInstanceProfile: {
+      Ref: 'dataNodeAsgInstanceProfileEC27E8D1',
+    },
+    BlockDeviceMappings: [
+      {
+        Ebs: {
+          VolumeSize: 200,
+        },
+      },
+    ],
+  });
+});
+
+test('Throw error listing every invalid field of the cluster config file', () => {
+  const configFile = join(__dirname, 'resources/invalid-cluster-config.json');
+  const app = new App({
+    context: {
+      clusterConfigFile: configFile,
+    },
+  });
+  // WHEN
+  try {
+    const testStack = new OsClusterEntrypoint(app, {
+      env: { account: 'test-account', region: 'us-east-1' },
+    });
+
+    // eslint-disable-next-line no-undef
+    fail('Expected an error to be thrown');
+  } catch (error) {
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toEqual(`Invalid cluster config file ${configFile}:\n`
+      + 'version: unsupported version 2, the supported version is 1\n'
+      + 'securityDisabled: expected boolean but found string\n'
+      + 'cpuArch: invalid value "x86", allowed values are x64, arm64\n'
+      + 'dataNodeCount: expected number but found string\n'
+      + 'unknownParam: unknown field');
+  }
+});
@@ -0,0 +1,679 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { validateClusterParameters } from '../lib/cluster-config/cluster-validator';
+
+const requiredParams = {
+  securityDisabled: false,
+  minDistribution: false,
+  distributionUrl: 'www.example.com',
+  cpuArch: 'x64',
+  distVersion: '1.0.0',
+};
+
+test('Valid cluster parameters have no errors or warnings', () => {
+  const result = validateClusterParameters({
+    ...requiredParams,
+    securityDisabled: true,
+    singleNodeCluster: false,
+    managerNodeCount: '3',
+    dataNodeCount: 2,
+    mlNodeCount: 1,
+    mlInstanceType: 'g5.xlarge',
+  });
+  expect(result.errors).toEqual([]);
+  expect(result.warnings).toEqual([]);
+});
+
+test('Narrow the context parameters to the types of the cluster config fields', () => {
+  const result = validateClusterParameters({
+    ...requiredParams,
+    securityDisabled: 'true',
+    singleNodeCluster: 'false',
+    managerNodeCount: '3',
+    dashboardsUrl: 'undefined',
+    dataTiers: '[{ "name": "hot", "nodeCount": 2 }]',
+    additionalConfig: '{ "cluster.routing.allocation.awareness.attributes": "zone" }',
+  });
+  expect(result.errors).toEqual([]);
+  expect(result.parameters).toEqual({
+    ...requiredParams,
+    securityDisabled: true,
+    singleNodeCluster: false,
+    managerNodeCount: 3,
+    dataTiers: [{ name: 'hot', nodeCount: 2 }],
+    additionalConfig: { 'cluster.routing.allocation.awareness.attributes': 'zone' },
+  });
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    additionalOsdConfig: '{ "server.name": ',
+  }).errors).toEqual([
+    'additionalOsdConfig: Encountered following error while parsing additionalOsdConfig json parameter: SyntaxError: Unexpected end of JSON input',
+  ]);
+});
+
+test('Collect errors and warnings for an invalid multi-node topology', () => {
+  const result = validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: 'false',
+    managerNodeCount: 2,
+    dataNodeCount: 0,
+    mlNodeCount: 1,
+    mlInstanceType: 'r5.xlarge',
+    dashboardsUrl: 'www.example.com',
+  });
+  expect(result.errors).toEqual([
+    'dataNodeCount: a multi-node cluster requires at least one data node',
+  ]);
+  expect(result.warnings).toEqual([
+    'managerNodeCount: an even number of cluster manager nodes (2) tolerates no more failures than 1 nodes, use an odd number of cluster manager nodes',
+    'mlInstanceType: ML nodes will run on r5.xlarge which has no GPU or Inferentia accelerator, consider one of the following families: g5,inf1,inf2',
+    'dashboardsUrl: OpenSearch Dashboards connects to the cluster using the demo security certificates',
+  ]);
+});
+
+test('Allow remote store for single-node cluster', () => {
+  const result = validateClusterParameters({
+    ...requiredParams,
+    securityDisabled: true,
+    singleNodeCluster: true,
+    dataNodeCount: 0,
+    enableRemoteStore: 'true',
+  });
+  expect(result.errors).toEqual([]);
+  expect(result.warnings).toEqual([]);
+});
+
+test('Collect errors for invalid data tiers', () => {
+  const result = validateClusterParameters({
+    ...requiredParams,
+    securityDisabled: true,
+    singleNodeCluster: false,
+    managerNodeCount: 0,
+    dataTiers: [
+      { name: 'hot', nodeCount: 2, instanceType: 'r6g.xlarge' },
+      {
+        name: 'hot', nodeCount: 0, volumeType: 'st1', roles: ['data', 'search'],
+      },
+      { name: 'Cold-Tier', nodeCount: 1, roles: ['warm', 'cluster_manager'] },
+    ],
+  });
+  expect(result.errors).toEqual([
+    'dataTiers[0].instanceType: Instance type r6g.xlarge is an arm64 instance type and cannot be used with cpuArch x64',
+    'dataTiers[1].name: duplicate data tier hot',
+    'dataTiers[1].nodeCount: expected a positive integer but found 0',
+    'dataTiers[1].volumeType: st1 volumes cannot be used as root volumes, use dataVolumeSize and dataVolumeType=st1 to store the data on a st1 volume',
+    'dataTiers[1].roles: the search role requires OpenSearch 2.4 or later',
+    'dataTiers[2].name: expected a lowercase alphanumeric name but found "Cold-Tier"',
+    'dataTiers[2].roles: the warm role requires OpenSearch 3.0 or later',
+    'dataTiers[2].roles: invalid role cluster_manager, allowed roles are data, ingest, search, warm',
+    'dataTiers: data tiers require dedicated cluster manager nodes, managerNodeCount cannot be 0',
+  ]);
+});
+
+test('Collect the unknown fields of the nested parameters with their path', () => {
+  const hash = '$2y$12$88IFVl6IfIwCFh5aQYfOmuXVL9j2hz/GusQb35o.4sdTDAEMTOD.K';
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    dataTiers: '[{"name":"hot","nodeCount":2,"instanceTyp":"r5.xlarge"}]',
+    snapshotRepository: '{"shedule":"0 2 * * *","retention":{"maxCount":14,"max_age":"30d"}}',
+    spotCapacity: { data: { instanceTypes: ['r5a.xlarge'], onDemandBase: 1 } },
+    autoScaling: { data: { max: 6, maxNodeCount: 6 } },
+    monitoring: { alarmEmail: 'ops@example.com' },
+    internalUsers: [{ username: 'reader', hash, backendRole: ['readall'] }],
+    securityRoles: [{ name: 'log_readers', indexPermissions: [{ indexPatterns: ['logs-*'], allowedActions: ['read'], fls: [] }] }],
+  }).errors).toEqual([
+    'dataTiers[0].instanceTyp: unknown field',
+    'snapshotRepository.shedule: unknown field',
+    'snapshotRepository.retention.max_age: unknown field',
+    'spotCapacity.data.onDemandBase: unknown field',
+    'autoScaling.data.max: unknown field',
+    'monitoring.alarmEmail: unknown field',
+    'internalUsers[0].backendRole: unknown field',
+    'securityRoles[0].indexPermissions[0].fls: unknown field',
+    'snapshotRepository.retention: the retention is applied by the snapshot management policy, which requires a schedule',
+    'monitoring: expected alarmTopicArn or alarmEmails',
+  ]);
+});
+
+test('Collect errors for invalid data volume and instance store parameters', () => {
+  const result = validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    dataInstanceType: 'r5.xlarge',
+    dataVolumeSize: 100,
+    dataVolumeType: 'io2',
+    dataVolumeThroughput: 250,
+    useInstanceStore: 'yes',
+  });
+  expect(result.errors).toEqual([
+    'useInstanceStore: parameter is required to be set as - true or false',
+    'dataVolumeIops: IOPS are required for io2 volumes',
+    'dataVolumeThroughput: throughput can only be provisioned for gp3 volumes but the volume type is io2',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    dataInstanceType: 'r5.xlarge',
+    dataVolumeIops: 3000,
+    useInstanceStore: true,
+  }).errors).toEqual([
+    'dataVolumeIops: parameter requires dataVolumeSize to be set',
+    'useInstanceStore: r5.xlarge has no NVMe instance store volumes',
+  ]);
+});
+
+test('Validate storage IOPS and throughput against the volume type of every node role', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    storageVolumeType: 'io1',
+    storageIops: 5000,
+    dataNodeStorage: 200,
+    clientNodeCount: 2,
+  }).errors).toEqual([
+    'storageIops: io1 volumes support up to 50 IOPS per GiB, 5000 IOPS require at least 100 GiB but the volume has 50 GiB '
+      + '(root volume of the cluster manager nodes)',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    storageVolumeType: 'gp3',
+    storageIops: 20000,
+    storageThroughput: 1000,
+  }).errors).toEqual([
+    'storageIops: gp3 volumes support between 3000 and 16000 IOPS but found 20000 (root volume of the cluster manager nodes)',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    storageVolumeType: 'gp3',
+    storageThroughput: 1000,
+  }).errors).toEqual([
+    'storageThroughput: gp3 volumes support up to 0.25 MiB/s per provisioned IOPS, 1000 MiB/s require at least 4000 IOPS '
+      + 'but the volume has 3000 (root volume of the single node)',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    storageThroughput: 250,
+    dataTiers: [
+      { name: 'hot', nodeCount: 2, volumeType: 'io2' },
+      {
+        name: 'warm', nodeCount: 2, volumeType: 'gp3', storage: 4, iops: 4000,
+      },
+    ],
+  }).errors).toEqual([
+    'dataTiers[0].iops: IOPS are required for io2 volumes (root volume of the hot tier)',
+    'dataTiers[1].iops: gp3 volumes support up to 500 IOPS per GiB, 4000 IOPS require at least 8 GiB but the volume has 4 GiB '
+      + '(root volume of the warm tier)',
+    'storageThroughput: throughput can only be provisioned for gp3 volumes but the volume type is gp2 '
+      + '(root volume of the cluster manager nodes)',
+  ]);
+});
+
+test('Collect errors for invalid certificate and domain name parameters', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    securityDisabled: true,
+    generateCertificates: true,
+    domainName: 'search.example.org',
+    hostedZoneId: 'Z0123456789',
+  }).errors).toEqual([
+    'generateCertificates: certificates are only used by the security plugin, which is missing with securityDisabled or minDistribution',
+    'hostedZoneId: hostedZoneId and hostedZoneName must be provided together',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    domainName: 'search.example.org',
+    hostedZoneId: 'Z0123456789',
+    hostedZoneName: 'example.com.',
+  }).errors).toEqual([
+    'domainName: search.example.org is not part of the hosted zone example.com.',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    certificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/abc',
+  }).errors).toEqual([
+    'certificateArn: parameter requires domainName to be set',
+  ]);
+});
+
+test('Collect errors for invalid admin password, internal users and security roles', () => {
+  const hash = '$2y$12$88IFVl6IfIwCFh5aQYfOmuXVL9j2hz/GusQb35o.4sdTDAEMTOD.K';
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    securityDisabled: true,
+    adminPasswordSecretArn: 'arn:aws:secretsmanager:us-east-1:123456789012:secret:admin-AbCdEf',
+    internalUsers: [{ username: 'reader', hash }],
+  }).errors).toEqual([
+    'adminPasswordSecretArn: the admin password is only used by the security plugin, which is missing with securityDisabled or minDistribution',
+    'internalUsers: internal users require the security plugin, which is missing with securityDisabled or minDistribution',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    adminPasswordSecretArn: 'admin-password',
+    internalUsers: [{ username: 'admin', hash }, { username: 'reader', hash: 'secret' }, { username: 'reader', hash }],
+    securityRoles: [
+      { name: 'readers', users: ['reader', 'writer'], indexPermissions: [{ indexPatterns: 'logs-*' }] },
+      { name: 'readers' },
+      { name: 'log readers' },
+      { name: 'all_access', users: ['reader'] },
+    ],
+  }).errors).toEqual([
+    'adminPasswordSecretArn: expected the complete ARN of a secret but found "admin-password"',
+    'internalUsers[0].username: duplicate or reserved username admin',
+    'internalUsers[1].hash: expected a bcrypt password hash, e.g. generated with plugins/opensearch-security/tools/hash.sh',
+    'internalUsers[2].username: duplicate or reserved username reader',
+    'securityRoles[0].indexPermissions[0]: expected the indexPatterns and allowedActions lists',
+    'securityRoles[0].users: unknown user writer',
+    'securityRoles[1].name: duplicate or reserved security role readers',
+    'securityRoles[2].name: expected an alphanumeric name but found "log readers"',
+    'securityRoles[3].name: duplicate or reserved security role all_access',
+  ]);
+});
+
+test('Collect errors for the cluster health settings', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    clusterHealthStatus: 'yellow',
+    clusterHealthTimeout: '45',
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    clusterHealthStatus: 'red',
+    clusterHealthTimeout: 720,
+  }).errors).toEqual([
+    'clusterHealthStatus: expected green or yellow but found "red"',
+    'clusterHealthTimeout: expected a number of minutes between 1 and 600 but found 720',
+  ]);
+});
+
+test('Collect errors for the blue/green deployment settings', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    greenDistributionUrl: 'www.example.com',
+    greenDashboardsUrl: 'www.example.com',
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    distVersion: '2.11.0',
+    singleNodeCluster: true,
+    enableRemoteStore: true,
+    remoteStore: { bucketArn: 'arn:aws:s3:::shared-remote-store', restoreFromStack: 'opensearch-infra-stack' },
+    greenDistributionUrl: 'www.example.com',
+  }).errors).toEqual([
+    'greenDistributionUrl: a single node attached to the remote store of another cluster with remoteStore.restoreFromStack '
+      + 'cannot deploy a green cluster, upgrade the source cluster instead',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    greenDistVersion: '2.4.0',
+    greenCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/green',
+  }).errors).toEqual([
+    'greenDistVersion: parameter requires greenDistributionUrl to be set',
+    'greenCertificateArn: parameter requires greenDistributionUrl to be set',
+  ]);
+
+  // the certificate of the blue cluster does not cover the green subdomain
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    domainName: 'search.example.com',
+    certificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/abc',
+    greenDistributionUrl: 'www.example.com',
+  }).errors).toEqual([
+    'greenCertificateArn: the green cluster is served under green.search.example.com, which requires either greenCertificateArn '
+      + 'or a hosted zone to validate a new certificate',
+  ]);
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    domainName: 'search.example.com',
+    certificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/abc',
+    greenDistributionUrl: 'www.example.com',
+    greenCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/green',
+  }).errors).toEqual([]);
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    greenDistributionUrl: 'www.example.com',
+    greenCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/green',
+  }).errors).toEqual([
+    'greenCertificateArn: parameter requires domainName to be set',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    greenDistributionUrl: 'www.example.com',
+  }).warnings).toEqual([
+    'greenDistributionUrl: the green cluster restores the latest successful snapshot of the blue cluster, which takes '
+      + 'none without snapshotRepository.schedule, the deployment of the green stack fails unless a snapshot was taken before',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    distVersion: '2.11.0',
+    singleNodeCluster: true,
+    snapshotRepository: { schedule: '0 2 * * *' },
+    greenDistributionUrl: 'www.example.com',
+  }).warnings).toEqual([]);
+});
+
+test('Collect errors for the snapshot repository settings', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    distVersion: '2.3.0',
+    snapshotRepository: JSON.stringify({
+      infrequentAccessDays: 60,
+      schedule: '0 2 * * *',
+      retention: { maxCount: 14, minCount: '2', maxAge: '30d' },
+    }),
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    snapshotRepository: {
+      bucketArn: 'my-bucket',
+      kmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:alias/snapshots',
+      basePath: '/snapshots/',
+      infrequentAccessDays: 7,
+      schedule: '0 2 * *',
+      retention: { minCount: 0, maxAge: '2w' },
+    },
+  }).errors).toEqual([
+    'snapshotRepository.bucketArn: expected the arn of an S3 bucket but found "my-bucket"',
+    'snapshotRepository.kmsKeyArn: expected the arn of a KMS key but found "arn:aws:kms:us-east-1:123456789012:alias/snapshots"',
+    'snapshotRepository.basePath: expected a path without leading or trailing slash but found "/snapshots/"',
+    'snapshotRepository.infrequentAccessDays: expected at least 30 days but found 7',
+    'snapshotRepository.schedule: expected a cron expression with 5 fields but found "0 2 * *"',
+    'snapshotRepository.schedule: snapshot management requires OpenSearch 2.1 or later',
+    'snapshotRepository.retention.minCount: expected a positive integer but found 0',
+    'snapshotRepository.retention.maxAge: expected a duration such as 30d, 12h or 90m but found "2w"',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    snapshotRepository: '["snapshots"]',
+  }).errors).toEqual([
+    'snapshotRepository: expected an object with the repository settings but found ["snapshots"]',
+  ]);
+});
+
+test('Collect errors for the remote store settings', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    enableRemoteStore: true,
+    remoteStore: JSON.stringify({ removalPolicy: 'retain', basePath: 'clusters/logs', separateRepositories: true }),
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    enableRemoteStore: true,
+    remoteStore: {
+      bucketArn: 'arn:aws:s3:::shared-remote-store',
+      removalPolicy: 'snapshot',
+      kmsKeyArn: 'key/1234',
+      basePath: 'clusters/',
+      separateRepositories: 'yes',
+    },
+  }).errors).toEqual([
+    'remoteStore.removalPolicy: expected destroy or retain but found "snapshot"',
+    'remoteStore.kmsKeyArn: expected the arn of a KMS key but found "key/1234"',
+    'remoteStore.basePath: expected a path without leading or trailing slash but found "clusters/"',
+    'remoteStore.separateRepositories: parameter is required to be set as - true or false',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    remoteStore: { bucketArn: 'arn:aws:s3:::shared-remote-store', removalPolicy: 'retain' },
+  }).errors).toEqual([
+    'remoteStore: parameter requires enableRemoteStore to be set to true',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    enableRemoteStore: true,
+    remoteStore: { bucketArn: 'arn:aws:s3:::shared-remote-store', removalPolicy: 'retain' },
+  }).errors).toEqual([
+    'remoteStore.removalPolicy: the removal policy only applies to the created bucket, not to bucketArn',
+  ]);
+
+  const restore = validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    enableRemoteStore: true,
+    remoteStore: { restoreFromStack: 'opensearch-infra-stack' },
+  });
+  expect(restore.errors).toEqual([
+    'remoteStore.restoreFromStack: only a single node cluster can attach to the remote store of another cluster',
+    'remoteStore.restoreFromStack: expected the bucketArn of the remote store of the source cluster',
+    'remoteStore.restoreFromStack: restoring the remote cluster state requires OpenSearch 2.10 or later',
+  ]);
+  expect(restore.warnings).toEqual([
+    'remoteStore.restoreFromStack: the single node writes to the remote store of opensearch-infra-stack, '
+      + 'stop the source cluster first, two clusters sharing a remote store corrupt its indices',
+  ]);
+});
+
+test('Collect errors for the availability zone settings', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    managerNodeCount: 3,
+    zoneCount: 3,
+    forceZoneAwareness: true,
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    managerNodeCount: 3,
+    zoneCount: '2',
+    forceZoneAwareness: 'yes',
+  }).errors).toEqual([
+    'forceZoneAwareness: parameter is required to be set as - true or false',
+    'managerNodeCount: the cluster manager nodes are spread one per availability zone, 3 nodes require a zoneCount of at least 3 but found 2',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    zoneCount: 7,
+  }).errors).toEqual([
+    'zoneCount: expected a number of availability zones between 1 and 6 but found 7',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    managerNodeCount: 1,
+    zoneCount: 1,
+    forceZoneAwareness: true,
+  }).errors).toEqual([
+    'forceZoneAwareness: forced awareness requires a zoneCount of at least 2',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    zoneCount: 2,
+  }).errors).toEqual([
+    'zoneCount: a single node cluster runs in a single availability zone',
+  ]);
+});
+
+test('Collect errors for the spot capacity settings', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    mlNodeCount: 1,
+    mlInstanceType: 'inf2.xlarge',
+    spotCapacity: '{"data":{"instanceTypes":["r6i.xlarge"],"onDemandBaseCapacity":1},"ml":{"instanceTypes":["inf1.xlarge"]}}',
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    useInstanceStore: true,
+    dataInstanceType: 'i3.xlarge',
+    mlNodeCount: 1,
+    mlInstanceType: 'g5.xlarge',
+    spotCapacity: {
+      data: { instanceTypes: ['i4i.xlarge', 'r6g.xlarge', 'r5.xlarge', 'i4i.xlarge'], onDemandPercentageAboveBaseCapacity: 120 },
+      client: { instanceTypes: ['c5.xlarge'] },
+      ml: { instanceTypes: ['r5.xlarge'] },
+      manager: { onDemandBaseCapacity: 1 },
+    },
+  }).errors).toEqual([
+    'spotCapacity.data.onDemandPercentageAboveBaseCapacity: expected a percentage between 0 and 100 but found 120',
+    'spotCapacity.data.instanceTypes[1]: Instance type r6g.xlarge is an arm64 instance type and cannot be used with cpuArch x64',
+    'spotCapacity.data.instanceTypes[2]: r5.xlarge has no NVMe instance store volumes, which the data nodes use',
+    'spotCapacity.data.instanceTypes[3]: duplicate instance type i4i.xlarge',
+    'spotCapacity.client: the cluster has no client nodes',
+    'spotCapacity.ml.instanceTypes[0]: r5.xlarge has no gpu accelerator like g5.xlarge',
+    'spotCapacity.manager: only the data, client, ml node groups can use spot capacity',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    spotCapacity: { data: {} },
+  }).errors).toEqual([
+    'spotCapacity: a single node cluster runs on an on-demand instance',
+  ]);
+});
+
+test('Collect errors for the autoscaling settings', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    dataNodeCount: 3,
+    ingestNodeCount: 2,
+    autoScaling: '{"data":{"maxNodeCount":6},"ingest":{"minNodeCount":1,"maxNodeCount":"4"}}',
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    dataNodeCount: 3,
+    autoScaling: {
+      data: { maxNodeCount: 2 },
+      client: { maxNodeCount: 2 },
+      ml: 3,
+      manager: { maxNodeCount: 5 },
+    },
+  }).errors).toEqual([
+    'autoScaling.data.maxNodeCount: expected at least the 3 nodes the group starts with but found 2',
+    'autoScaling.client: the cluster has no client node group',
+    'autoScaling.ml: the cluster has no ml node group',
+    'autoScaling.manager: only the data, client, ml, ingest node groups can scale',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    managerNodeCount: 3,
+    clientNodeCount: 2,
+    dataTiers: '[{"name":"hot","nodeCount":2},{"name":"warm","nodeCount":4}]',
+    autoScaling: { data: { maxNodeCount: 3 }, client: { minNodeCount: 0, maxNodeCount: 'many' } },
+  }).errors).toEqual([
+    'autoScaling.data.maxNodeCount: expected at least the 4 nodes the group starts with but found 3',
+    'autoScaling.client.minNodeCount: expected a positive integer but found 0',
+    'autoScaling.client.maxNodeCount: expected a positive integer but found "many"',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: false,
+    managerNodeCount: 3,
+    dataTiers: '[{"name":"hot","nodeCount":3},{"name":"cold","nodeCount":1}]',
+    autoScaling: { data: { minNodeCount: 2, maxNodeCount: 6 } },
+  }).errors).toEqual([
+    'autoScaling.data.minNodeCount: every data tier starts with its own nodeCount, the bound only applies without dataTiers',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    autoScaling: { data: { maxNodeCount: 3 } },
+  }).errors).toEqual([
+    'autoScaling: a single node cluster cannot scale',
+  ]);
+});
+
+test('Collect errors for the alarm notifications', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    monitoring: JSON.stringify({ alarmEmails: ['oncall@example.com'] }),
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    monitoring: { alarmTopicArn: 'arn:aws:sqs:us-east-1:123456789012:alarms', alarmEmails: ['oncall', 'oncall@example.com'] },
+  }).errors).toEqual([
+    'monitoring.alarmTopicArn: expected the arn of an SNS topic but found "arn:aws:sqs:us-east-1:123456789012:alarms"',
+    'monitoring.alarmEmails: expected an email address but found "oncall"',
+    'monitoring.alarmEmails: the email addresses subscribe to a created topic, subscribe them to alarmTopicArn instead',
+  ]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    monitoring: '{}',
+  }).errors).toEqual([
+    'monitoring: expected alarmTopicArn or alarmEmails',
+  ]);
+});
+
+test('Collect errors for the log retention', () => {
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    logRetentionDays: '90',
+  }).errors).toEqual([]);
+
+  expect(validateClusterParameters({
+    ...requiredParams,
+    singleNodeCluster: true,
+    logRetentionDays: 45,
+  }).errors).toEqual([
+    'logRetentionDays: expected one of 1, 3, 5, 7, 14, 30, 60, 90, 120, 150, 180, 365, 400, 545, 731, 1827, 2192, 2557, 2922, 3288, 3653 but found 45',
+  ]);
+});
@@ -0,0 +1,145 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { load } from 'js-yaml';
+import {
+  parseAdditionalConfig, renderDashboardsConfig, renderDashboardsService, renderDrainService, renderHealthCheckService, renderJvmOptions,
+  renderMetricsService, renderOpenSearchConfig, renderOpenSearchService, renderStatsService,
+} from '../lib/opensearch-config/config-renderer';
+import { renderSnapshotPolicy, renderSnapshotRepository } from '../lib/opensearch-config/snapshot-config';
+
+const multiNodeOptions = {
+  clusterName: 'opensearch-infra-stack-123456789012-us-east-1',
+  singleNode: false,
+  managerDiscoveryTags: ['opensearch-infra-stack/seedNodeAsg', 'opensearch-infra-stack/managerNodeAsg'],
+};
+
+const remoteStoreRepository = {
+  name: 'opensearch-infra-stack-repo', bucket: 'opensearch-infra-stack', basePath: 'remote-store', region: 'us-east-1',
+};
+
+test('Render opensearch.yml of a single node cluster', () => {
+  expect(renderOpenSearchConfig({
+    clusterName: 'opensearch-infra-stack-123456789012-us-east-1',
+    singleNode: true,
+    dataPaths: ['/mnt/data/opensearch'],
+  })).toMatchSnapshot();
+});
+
+test.each(['seed-manager', 'seed-data', 'manager', 'data', 'client', 'ingest', 'ml'])('Render opensearch.yml of the %s nodes', (nodeType) => {
+  expect(renderOpenSearchConfig({ ...multiNodeOptions, nodeType })).toMatchSnapshot();
+});
+
+test('Render opensearch.yml of the data nodes of a tier with dedicated ingest nodes and remote store', () => {
+  expect(renderOpenSearchConfig({
+    ...multiNodeOptions,
+    nodeType: 'data',
+    dedicatedIngestNodes: true,
+    dataTier: { name: 'warm' },
+    dataPaths: ['/mnt/instance-store/opensearch', '/mnt/data/opensearch'],
+    remoteStore: {
+      segment: remoteStoreRepository, translog: remoteStoreRepository, state: remoteStoreRepository,
+    },
+    securityDisabled: true,
+    memoryLock: true,
+  })).toMatchSnapshot();
+});
+
+test('Render opensearch.yml with separate remote store repositories', () => {
+  const repository = (kind: string) => ({
+    name: `opensearch-infra-stack-${kind}-repo`, bucket: 'remote-store-bucket', basePath: `clusters/${kind}`, region: 'us-east-1',
+  });
+  const config: any = load(renderOpenSearchConfig({
+    ...multiNodeOptions,
+    nodeType: 'data',
+    remoteStore: { segment: repository('segment'), translog: repository('translog'), state: repository('state') },
+  }));
+  expect(config['node.attr.remote_store.segment.repository']).toEqual('opensearch-infra-stack-segment-repo');
+  expect(config['node.attr.remote_store.translog.repository']).toEqual('opensearch-infra-stack-translog-repo');
+  expect(config['node.attr.remote_store.state.repository']).toEqual('opensearch-infra-stack-state-repo');
+  expect(config['node.attr.remote_store.repository.opensearch-infra-stack-translog-repo.settings']).toEqual({
+    bucket: 'remote-store-bucket', base_path: 'clusters/translog', region: 'us-east-1',
+  });
+  expect(config).not.toHaveProperty(['cluster.remote_store.state.enabled']);
+  expect(load(renderOpenSearchConfig({
+    clusterName: 'opensearch-infra-stack-123456789012-us-east-1',
+    singleNode: true,
+    remoteStore: { segment: repository('segment'), translog: repository('translog'), state: repository('state') },
+    remoteClusterState: true,
+  }))).toHaveProperty(['cluster.remote_store.state.enabled'], true);
+});
+
+test('Merge additional config into the rendered opensearch.yml', () => {
+  const additionalConfig = parseAdditionalConfig('plugins.security.nodes_dn:\n  - "CN=*.example.com, O=\\"Test\\""\n'
+    + 'path.repo: $HOME/snapshots\nnode.roles: [data]\n');
+  const config: any = load(renderOpenSearchConfig({ ...multiNodeOptions, nodeType: 'data', additionalConfig }));
+  expect(config['plugins.security.nodes_dn']).toEqual(['CN=*.example.com, O="Test"']);
+  expect(config['path.repo']).toEqual('$HOME/snapshots');
+  // the additional config overrides the generated settings
+  expect(config['node.roles']).toEqual(['data']);
+  expect(parseAdditionalConfig('undefined')).toBeUndefined();
+});
+
+test('Render JVM options', () => {
+  expect(renderJvmOptions({ use50PercentHeap: false })).toEqual('# JVM options of the OpenSearch cluster, overriding the defaults of config/jvm.options\n');
+  expect(renderJvmOptions({ use50PercentHeap: true, memoryGiB: 32, jvmSysProps: 'opensearch.experimental.feature=true, a=b' }))
+    .toMatchSnapshot();
+  expect(renderJvmOptions({ use50PercentHeap: true, memoryGiB: 256 })).toContain('-Xmx32g\n');
+  // the heap is computed on the node for instance types missing from the catalog
+  expect(renderJvmOptions({ use50PercentHeap: true })).toContain('-Xms__HEAP_SIZE__\n-Xmx__HEAP_SIZE__\n');
+});
+
+test('Render opensearch_dashboards.yml', () => {
+  expect(renderDashboardsConfig({ securityPlugin: true })).toMatchSnapshot();
+  expect(renderDashboardsConfig({
+    securityPlugin: false,
+    additionalConfig: { 'data.search.usageTelemetry.enabled': 'true' },
+  })).toMatchSnapshot();
+});
+
+test('Render systemd units', () => {
+  expect(renderOpenSearchService(false)).toMatchSnapshot();
+  expect(renderOpenSearchService(true)).toContain("ExecStart=/bin/bash -c 'exec ./bin/opensearch >> install.log 2>&1'\n");
+  expect(renderDashboardsService()).toMatchSnapshot();
+  expect(renderHealthCheckService('/home/ec2-user/bootstrap/node-bootstrap.sh', '/home/ec2-user/bootstrap/node.env')).toMatchSnapshot();
+  expect(renderDrainService('/home/ec2-user/bootstrap/node-bootstrap.sh', '/home/ec2-user/bootstrap/node.env')).toMatchSnapshot();
+  expect(renderMetricsService('/home/ec2-user/bootstrap/node-bootstrap.sh', '/home/ec2-user/bootstrap/node.env'))
+    .toContain("ExecStart=/bin/bash -c 'exec /home/ec2-user/bootstrap/node-bootstrap.sh publish-metrics >> /var/log/opensearch-bootstrap.log 2>&1'\n");
+  expect(renderStatsService('/home/ec2-user/bootstrap/node-bootstrap.sh', '/home/ec2-user/bootstrap/node.env'))
+    .toContain("ExecStart=/bin/bash -c 'exec /home/ec2-user/bootstrap/node-bootstrap.sh collect-stats >> /var/log/opensearch-bootstrap.log 2>&1'\n");
+});
+
+test('Render the snapshot repository and its snapshot management policy', () => {
+  expect(JSON.parse(renderSnapshotRepository('snapshot-bucket', 'opensearch-infra-stack', 'us-east-1'))).toEqual({
+    type: 's3',
+    settings: { bucket: 'snapshot-bucket', base_path: 'opensearch-infra-stack', region: 'us-east-1' },
+  });
+  expect(renderSnapshotPolicy({
+    repository: 'opensearch-infra-stack-snapshots',
+    schedule: '0 2 * * *',
+    retention: { maxCount: 14, maxAge: '30d' },
+  })).toMatchSnapshot();
+  // snapshots are kept forever without retention
+  expect(JSON.parse(renderSnapshotPolicy({ repository: 'opensearch-infra-stack-snapshots', schedule: '0 * * * *' }))).not.toHaveProperty('deletion');
+});
+
+test('Render the zone awareness of the shard allocation', () => {
+  const config: any = load(renderOpenSearchConfig({
+    ...multiNodeOptions,
+    nodeType: 'data',
+    zoneAwareness: { zones: ['us-east-1a', 'us-east-1b', 'us-east-1c'], forced: true },
+  }));
+  // the zone of the node is read from the instance metadata by the bootstrap script
+  expect(config['node.attr.zone']).toEqual('__AVAILABILITY_ZONE__');
+  expect(config['cluster.routing.allocation.awareness.attributes']).toEqual('zone');
+  expect(config['cluster.routing.allocation.awareness.force.zone.values']).toEqual(['us-east-1a', 'us-east-1b', 'us-east-1c']);
+  expect(load(renderOpenSearchConfig({
+    ...multiNodeOptions,
+    nodeType: 'data',
+    zoneAwareness: { zones: ['us-east-1a', 'us-east-1b'], forced: false },
+  }))).not.toHaveProperty(['cluster.routing.allocation.awareness.force.zone.values']);
+});
@@ -0,0 +1,43 @@
+/* Copyright OpenSearch Contributors
+SPDX-License-Identifier: Apache-2.0
+
+The OpenSearch Contributors require contributions made to
+this file be licensed under the Apache-2.0 license or a
+compatible open source license. */
+
+import { getCatalogInstanceType, getInstanceSpec } from '../lib/opensearch-config/instance-catalog';
+
+test('Describe catalog instance types', () => {
+  expect(getInstanceSpec('i3.2xlarge')).toEqual({
+    instanceType: 'i3.2xlarge',
+    family: 'i3',
+    size: '2xlarge',
+    architecture: 'x64',
+    vCpus: 8,
+    memoryGiB: 61,
+    localNvme: true,
+    accelerator: undefined,
+  });
+  expect(getInstanceSpec('im4gn.large').localNvme).toBe(true);
+  expect(getInstanceSpec('r7g.4xlarge').memoryGiB).toBe(128);
+  expect(getInstanceSpec('g5g.xlarge').accelerator).toBe('gpu');
+});
+
+test('Infer architecture of instance families missing from the catalog', () => {
+  expect(getInstanceSpec('r8g.xlarge').architecture).toBe('arm64');
+  expect(getInstanceSpec('c7gn.large').architecture).toBe('arm64');
+  expect(getInstanceSpec('m7i-flex.large').architecture).toBe('x64');
+  expect(getInstanceSpec('r8g.xlarge').memoryGiB).toBeUndefined();
+  expect(getInstanceSpec('m6id.large').localNvme).toBe(true);
+  expect(getInstanceSpec('i3en.large').localNvme).toBe(true);
+  expect(getInstanceSpec('i7ie.large').localNvme).toBe(true);
+  expect(getInstanceSpec('inf2.xlarge').localNvme).toBe(false);
+  expect(getInstanceSpec('inf3.xlarge').localNvme).toBe(false);
+  expect(getInstanceSpec('r8g.xlarge').localNvme).toBe(false);
+  expect(getCatalogInstanceType('c7gn.large', 'arm64').toString()).toBe('c7gn.large');
+});
+
+test('Throw error on architecture mismatch', () => {
+  expect(() => getCatalogInstanceType('c7g.xlarge', 'x64'))
+    .toThrow('Instance type c7g.xlarge is an arm64 instance type and cannot be used with cpuArch x64');
+});
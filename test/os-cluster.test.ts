@@ -6,7 +6,7 @@ this file be licensed under the Apache-2.0 license or a
 compatible open source license. */
 
 import { App } from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
 import { OsClusterEntrypoint } from '../lib/os-cluster-entrypoint';
 
 test('Test Resources with security disabled multi-node default instance types', () => {
@@ -41,7 +41,7 @@ test('Test Resources with security disabled multi-node default instance types',
 
   const infraStack = securityDisabledStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
   const infraTemplate = Template.fromStack(infraStack);
-  infraTemplate.resourceCountIs('AWS::Logs::LogGroup', 1);
+  infraTemplate.resourceCountIs('AWS::Logs::LogGroup', 5);
   infraTemplate.resourceCountIs('AWS::IAM::Role', 1);
   infraTemplate.resourceCountIs('AWS::AutoScaling::AutoScalingGroup', 3);
   infraTemplate.resourceCountIs('AWS::ElasticLoadBalancingV2::LoadBalancer', 1);
@@ -243,12 +243,38 @@ test('Throw error on wrong cpu arch to instance mapping', () => {
     fail('Expected an error to be thrown');
   } catch (error) {
     expect(error).toBeInstanceOf(Error);
-    // eslint-disable-next-line max-len
-    expect(error.message).toEqual('Invalid instance type provided, please provide any one the following: m6g.xlarge,m6g.2xlarge,c6g.large,c6g.xlarge,r6g.large,r6g.xlarge,r6g.2xlarge,r6g.4xlarge,r6g.8xlarge,g5g.large,g5g.xlarge');
+    expect(error.message).toEqual('Invalid cluster parameters:\n'
+      + 'dataInstanceType: Instance type r5.xlarge is an x64 instance type and cannot be used with cpuArch arm64\n'
+      + 'mlInstanceType: Instance type g5.xlarge is an x64 instance type and cannot be used with cpuArch arm64');
   }
 });
 
-test('Throw error on ec2 instance outside of enum list', () => {
+test('Report cluster parameter warnings on the infra stack', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 2,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  Annotations.fromStack(infraStack).hasWarning('*', Match.stringLikeRegexp('^managerNodeCount: an even number of cluster manager nodes \\(2\\)'));
+});
+
+test('Test instance types resolved from the instance catalog', () => {
   const app = new App({
     context: {
       securityDisabled: false,
@@ -256,13 +282,61 @@ test('Throw error on ec2 instance outside of enum list', () => {
       distributionUrl: 'www.example.com',
       cpuArch: 'x64',
       singleNodeCluster: false,
-      dashboardsUrl: 'www.example.com',
       distVersion: '1.0.0',
       serverAccessType: 'prefixList',
       restrictServerAccessTo: 'pl-12345',
       dataNodeStorage: 200,
       isInternal: true,
       dataInstanceType: 'r5.16xlarge',
+      managerInstanceType: 'r6i.large',
+      mlNodeCount: 1,
+      mlInstanceType: 'inf2.xlarge',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'r5.16xlarge',
+    IamInstanceProfile: {
+      Ref: 'dataNodeAsgInstanceProfileEC27E8D1',
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'r6i.large',
+    IamInstanceProfile: {
+      Ref: 'managerNodeAsgInstanceProfile1415C2CF',
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'inf2.xlarge',
+    IamInstanceProfile: {
+      Ref: 'mlNodeAsgInstanceProfileFF393D8C',
+    },
+  });
+});
+
+test('Throw error on malformed instance type', () => {
+  const app = new App({
+    context: {
+      securityDisabled: false,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'www.example.com',
+      distVersion: '1.0.0',
+      serverAccessType: 'prefixList',
+      restrictServerAccessTo: 'pl-12345',
+      dataNodeStorage: 200,
+      isInternal: true,
+      dataInstanceType: 'r5-16xlarge',
     },
   });
   // WHEN
@@ -276,7 +350,7 @@ test('Throw error on ec2 instance outside of enum list', () => {
   } catch (error) {
     expect(error).toBeInstanceOf(Error);
     // eslint-disable-next-line max-len
-    expect(error.message).toEqual('Invalid instance type provided, please provide any one the following: m5.xlarge,m5.2xlarge,c5.large,c5.xlarge,r5.large,r5.xlarge,r5.2xlarge,r5.4xlarge,r5.8xlarge,g5.large,g5.xlarge,i3.large,i3.xlarge,i3.2xlarge,i3.4xlarge,i3.8xlarge,inf1.xlarge,inf1.2xlarge');
+    expect(error.message).toEqual('Invalid cluster parameters:\ndataInstanceType: Invalid instance type r5-16xlarge provided, the expected format is <family>.<size>, e.g. r5.xlarge');
   }
 });
 
@@ -366,7 +440,10 @@ test('Test multi-node cluster with remote-store enabled', () => {
   infraTemplate.resourceCountIs('AWS::IAM::Role', 2);
   infraTemplate.resourceCountIs('AWS::IAM::Policy', 1);
   infraTemplate.hasResourceProperties('AWS::S3::Bucket', {
-    BucketName: 'opensearch-infra-stack',
+    BucketName: Match.absent(),
+  });
+  infraTemplate.hasOutput('remotestorebucket', {
+    Value: { Ref: Match.stringLikeRegexp('^remotestoreopensearchinfrastack') },
   });
   infraTemplate.hasResourceProperties('AWS::IAM::Policy', {
     PolicyDocument: {
@@ -407,6 +484,24 @@ test('Test multi-node cluster with remote-store enabled', () => {
             },
           ],
         },
+        {
+          Action: 'autoscaling:CompleteLifecycleAction',
+          Effect: 'Allow',
+          Resource: {
+            'Fn::Join': ['', [
+              'arn:',
+              { Ref: 'AWS::Partition' },
+              ':autoscaling:us-east-1:test-account:autoScalingGroup:*:autoScalingGroupName/opensearch-infra-stack-*',
+            ]],
+          },
+        },
+        {
+          Action: 'cloudformation:DescribeStacks',
+          Effect: 'Allow',
+          Resource: {
+            Ref: 'AWS::StackId',
+          },
+        },
         {
           Action: [
             'cloudformation:DescribeStackResource',
@@ -422,6 +517,174 @@ test('Test multi-node cluster with remote-store enabled', () => {
   });
 });
 
+test('Test multi-node cluster with separate remote store repositories in an existing bucket', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 0,
+      dataNodeCount: 3,
+      enableRemoteStore: true,
+      remoteStore: JSON.stringify({
+        bucketArn: 'arn:aws:s3:::shared-remote-store',
+        basePath: 'clusters/logs',
+        kmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab',
+        separateRepositories: true,
+      }),
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.resourceCountIs('AWS::S3::Bucket', 0);
+  infraTemplate.resourceCountIs('AWS::Lambda::Function', 0);
+  infraTemplate.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: Match.arrayWith(['s3:PutObject']),
+          Resource: ['arn:aws:s3:::shared-remote-store', 'arn:aws:s3:::shared-remote-store/*'],
+        }),
+        Match.objectLike({
+          Action: Match.arrayWith(['kms:Decrypt', 'kms:Encrypt']),
+          Resource: 'arn:aws:kms:us-east-1:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab',
+        }),
+      ]),
+    },
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: Match.stringLikeRegexp('node.attr.remote_store.segment.repository: opensearch-infra-stack-segment-repo\n'
+                + 'node.attr.remote_store.repository.opensearch-infra-stack-segment-repo.type: s3\n'
+                + 'node.attr.remote_store.repository.opensearch-infra-stack-segment-repo.settings:\n'
+                + '  bucket: shared-remote-store\n  base_path: clusters/logs/segment\n  region: us-east-1\n'
+                + 'node.attr.remote_store.translog.repository: opensearch-infra-stack-translog-repo\n[^]*'
+                + 'node.attr.remote_store.state.repository: opensearch-infra-stack-state-repo\n'),
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Test remote store bucket retained after the deletion of the stack', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      enableRemoteStore: true,
+      remoteStore: { removalPolicy: 'retain' },
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  // the objects are kept and the bucket gets a generated name, so that the stack can be deployed again
+  infraTemplate.resourceCountIs('AWS::Lambda::Function', 0);
+  infraTemplate.hasResource('AWS::S3::Bucket', {
+    DeletionPolicy: 'Retain',
+    Properties: Match.absent(),
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: {
+                'Fn::Join': ['', Match.arrayWith([{ Ref: Match.stringLikeRegexp('^remotestoreopensearchinfrastack') }])],
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Test single node cluster attaching to the remote store of another cluster', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: true,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.11.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      suffix: 'debug',
+      enableRemoteStore: true,
+      remoteStore: {
+        bucketArn: 'arn:aws:s3:::opensearch-infra-stack',
+        basePath: 'remote-store',
+        restoreFromStack: 'opensearch-infra-stack',
+      },
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack-debug')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.resourceCountIs('AWS::S3::Bucket', 0);
+  // the node takes the name and the repositories of the source cluster to find its remote cluster state
+  infraTemplate.hasResource('AWS::EC2::Instance', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: Match.stringLikeRegexp('^cluster.name: opensearch-infra-stack-test-account-us-east-1\n[^]*'
+                + 'node.attr.remote_store.segment.repository: opensearch-infra-stack-repo\n'
+                + 'node.attr.remote_store.repository.opensearch-infra-stack-repo.type: s3\n'
+                + 'node.attr.remote_store.repository.opensearch-infra-stack-repo.settings:\n'
+                + '  bucket: opensearch-infra-stack\n  base_path: remote-store\n  region: us-east-1\n[^]*'
+                + 'cluster.remote_store.state.enabled: true\n'),
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
 test('Throw error on unsupported ebs volume type', () => {
   const app = new App({
     context: {
@@ -437,7 +700,7 @@ test('Throw error on unsupported ebs volume type', () => {
       dataNodeStorage: 200,
       isInternal: true,
       dataInstanceType: 'r5.4xlarge',
-      storageVolumeType: 'io1',
+      storageVolumeType: 'io3',
     },
   });
   // WHEN
@@ -451,7 +714,7 @@ test('Throw error on unsupported ebs volume type', () => {
   } catch (error) {
     expect(error).toBeInstanceOf(Error);
     // eslint-disable-next-line max-len
-    expect(error.message).toEqual('Invalid volume type provided, please provide any one of the following: standard, gp2, gp3');
+    expect(error.message).toEqual('Invalid cluster parameters:\nstorageVolumeType: Invalid volume type provided, please provide any one of the following: standard, gp2, gp3, io1, io2');
   }
 });
 
@@ -489,3 +752,1795 @@ test('Test multi-node cluster with custom IAM Role', () => {
     Roles: ['customRoleName'],
   });
 });
+
+test('Throw error listing every invalid cluster parameter', () => {
+  const app = new App({
+    context: {
+      securityDisabled: 'yes',
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x86',
+      singleNodeCluster: false,
+      distVersion: '1.0.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      dataNodeCount: 'three',
+    },
+  });
+  // WHEN
+  try {
+    const testStack = new OsClusterEntrypoint(app, {
+      env: { account: 'test-account', region: 'us-east-1' },
+    });
+
+    // eslint-disable-next-line no-undef
+    fail('Expected an error to be thrown');
+  } catch (error) {
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toEqual('Invalid cluster parameters:\n'
+      + 'securityDisabled: parameter is required to be set as - true or false\n'
+      + 'dataNodeCount: expected a non-negative integer but found "three"\n'
+      + 'minDistribution: parameter is required to be set as - true or false\n'
+      + 'cpuArch: Please provide a valid cpu architecture. The valid value can be either x64 or arm64');
+  }
+});
+
+test('Test multi-node cluster with user provided manager and client instance types', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'arm64',
+      singleNodeCluster: false,
+      distVersion: '1.0.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      clientNodeCount: 2,
+      managerInstanceType: 'm6g.xlarge',
+      clientInstanceType: 'c6g.large',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.resourceCountIs('AWS::AutoScaling::AutoScalingGroup', 4);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'm6g.xlarge',
+    IamInstanceProfile: {
+      Ref: 'managerNodeAsgInstanceProfile1415C2CF',
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'm6g.xlarge',
+    IamInstanceProfile: {
+      Ref: 'seedNodeAsgInstanceProfile6F1EA4FF',
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'c6g.large',
+    IamInstanceProfile: {
+      Ref: 'clientNodeAsgInstanceProfile2C040128',
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'r6g.xlarge',
+    IamInstanceProfile: {
+      Ref: 'dataNodeAsgInstanceProfileEC27E8D1',
+    },
+  });
+});
+
+test('Test multi-node cluster with dedicated ingest nodes', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      distVersion: '1.0.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      ingestNodeCount: 2,
+      ingestInstanceType: 'c5.2xlarge',
+      ingestNodeStorage: 80,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.resourceCountIs('AWS::AutoScaling::AutoScalingGroup', 4);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    MaxSize: '2',
+    MinSize: '2',
+    Tags: [
+      {
+        Key: 'Name',
+        Value: 'opensearch-infra-stack/ingestNodeAsg',
+      },
+      {
+        Key: 'role',
+        Value: 'ingest',
+      },
+    ],
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'c5.2xlarge',
+    IamInstanceProfile: {
+      Ref: 'ingestNodeAsgInstanceProfileCFF02AE6',
+    },
+    BlockDeviceMappings: [
+      {
+        Ebs: {
+          VolumeSize: 80,
+        },
+      },
+    ],
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: Match.stringLikeRegexp('node.roles:\n  - ingest\n'),
+            },
+          },
+        },
+      },
+    },
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: Match.stringLikeRegexp('node.roles:\n  - data\n[^ ]'),
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Test multi-node cluster with hot and warm data tiers', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      distVersion: '2.7.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      dataTiers: JSON.stringify([
+        {
+          name: 'hot', nodeCount: 2, instanceType: 'i3.xlarge', volumeType: 'gp3',
+        },
+        {
+          name: 'warm', nodeCount: 3, instanceType: 'r5.2xlarge', storage: 500, roles: ['data', 'search'],
+        },
+      ]),
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  // manager, seed, hot and warm node groups
+  infraTemplate.resourceCountIs('AWS::AutoScaling::AutoScalingGroup', 4);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    MaxSize: '3',
+    Tags: [
+      {
+        Key: 'Name',
+        Value: 'opensearch-infra-stack/warmDataNodeAsg',
+      },
+      {
+        Key: 'role',
+        Value: 'data',
+      },
+      {
+        Key: 'tier',
+        Value: 'warm',
+      },
+    ],
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'i3.xlarge',
+    BlockDeviceMappings: [
+      {
+        Ebs: {
+          VolumeSize: 100,
+          VolumeType: 'gp3',
+        },
+      },
+    ],
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'r5.2xlarge',
+    BlockDeviceMappings: [
+      {
+        Ebs: {
+          VolumeSize: 500,
+          VolumeType: 'gp2',
+        },
+      },
+    ],
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: Match.stringLikeRegexp('node.roles:\n  - data\n  - search\nnode.attr.temp: warm\n'),
+            },
+          },
+        },
+      },
+    },
+  });
+  // the hot tier serves the opensearch listener when there are no client nodes
+  infraTemplate.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+    Port: 9200,
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    TargetGroupARNs: [
+      {
+        Ref: 'clusterNlbopensearchopensearchTargetGroup195B4957',
+      },
+    ],
+    Tags: [
+      {
+        Key: 'Name',
+        Value: 'opensearch-infra-stack/hotDataNodeAsg',
+      },
+      {
+        Key: 'role',
+        Value: 'client',
+      },
+      {
+        Key: 'tier',
+        Value: 'hot',
+      },
+    ],
+  });
+});
+
+test('Test multi-node cluster with data volumes and instance store', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'www.example.com',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      dataVolumeSize: 500,
+      dataVolumeIops: 6000,
+      dataVolumeThroughput: 500,
+      dataTiers: JSON.stringify([
+        {
+          name: 'hot', nodeCount: 2, instanceType: 'i3.xlarge', useInstanceStore: true,
+        },
+        {
+          name: 'warm', nodeCount: 3, instanceType: 'r5.2xlarge', dataVolumeSize: 2000, dataVolumeType: 'st1',
+        },
+      ]),
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'i3.xlarge',
+    BlockDeviceMappings: [
+      {
+        DeviceName: '/dev/xvda',
+        Ebs: {
+          VolumeSize: 100,
+        },
+      },
+      {
+        DeviceName: '/dev/sdf',
+        Ebs: {
+          VolumeSize: 500,
+          VolumeType: 'gp3',
+          Iops: 6000,
+          Throughput: 500,
+        },
+      },
+    ],
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    InstanceType: 'r5.2xlarge',
+    BlockDeviceMappings: [
+      {
+        DeviceName: '/dev/xvda',
+      },
+      {
+        DeviceName: '/dev/sdf',
+        Ebs: {
+          VolumeSize: 2000,
+          VolumeType: 'st1',
+          Iops: Match.absent(),
+          Throughput: Match.absent(),
+        },
+      },
+    ],
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          packages: {
+            yum: {
+              mdadm: [],
+            },
+          },
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: Match.stringLikeRegexp('node.roles:\n  - data\n  - ingest\npath.data:\n  - /mnt/instance-store/opensearch\n'
+                + '  - /mnt/data/opensearch\nnode.attr.temp: hot\n'),
+            },
+            // both data paths are mounted again by the UUID of their file system when the instance reboots
+            '/home/ec2-user/bootstrap/node-bootstrap.sh': {
+              content: Match.stringLikeRegexp('mdadm --detail --scan >> /etc/mdadm.conf\n[^]*'
+                + '"UUID=\\$\\(blkid -s UUID -o value \\$device\\) /mnt/instance-store xfs defaults,nofail 0 2" >> /etc/fstab\n[^]*'
+                + '"UUID=\\$\\(blkid -s UUID -o value \\$device\\) /mnt/data xfs defaults,nofail 0 2" >> /etc/fstab\n'),
+            },
+          },
+          commands: {
+            '000': {
+              command: 'set -ex;/opt/aws/amazon-cloudwatch-agent/bin/amazon-cloudwatch-agent-ctl -a stop',
+            },
+            '002': {
+              command: 'set -ex;/home/ec2-user/bootstrap/node-bootstrap.sh prepare-host',
+              env: {
+                INSTANCE_STORE: 'true',
+                DATA_VOLUME_DEVICE: '/dev/sdf',
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Throw error on data volume parameters not matching the volume type', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      dataVolumeSize: 500,
+      dataVolumeType: 'st1',
+      dataVolumeThroughput: 500,
+      useInstanceStore: true,
+    },
+  });
+  // WHEN
+  try {
+    const testStack = new OsClusterEntrypoint(app, {
+      env: { account: 'test-account', region: 'us-east-1' },
+    });
+
+    // eslint-disable-next-line no-undef
+    fail('Expected an error to be thrown');
+  } catch (error) {
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toEqual('Invalid cluster parameters:\n'
+      + 'dataVolumeThroughput: throughput can only be provisioned for gp3 volumes but the volume type is st1\n'
+      + 'useInstanceStore: the default instance type has no NVMe instance store volumes');
+  }
+});
+
+test('Test multi-node cluster with provisioned IOPS and throughput on the root volumes', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      storageVolumeType: 'gp3',
+      storageIops: 4000,
+      storageThroughput: 250,
+      dataTiers: JSON.stringify([
+        {
+          name: 'hot', nodeCount: 2, volumeType: 'io2', iops: 20000,
+        },
+      ]),
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    IamInstanceProfile: {
+      Ref: 'managerNodeAsgInstanceProfile1415C2CF',
+    },
+    BlockDeviceMappings: [
+      {
+        Ebs: {
+          VolumeSize: 50,
+          VolumeType: 'gp3',
+          Iops: 4000,
+          Throughput: 250,
+        },
+      },
+    ],
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LaunchConfiguration', {
+    BlockDeviceMappings: [
+      {
+        Ebs: {
+          VolumeSize: 100,
+          VolumeType: 'io2',
+          Iops: 20000,
+          Throughput: Match.absent(),
+        },
+      },
+    ],
+  });
+});
+
+test('Test multi-node cluster with generated certificates and TLS terminated on the load balancer', () => {
+  const app = new App({
+    context: {
+      securityDisabled: false,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'www.example.com',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      generateCertificates: true,
+      domainName: 'search.example.com',
+      hostedZoneId: 'Z0123456789',
+      hostedZoneName: 'example.com',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResourceProperties('AWS::SecretsManager::Secret', {
+    SecretString: 'pending',
+  });
+  infraTemplate.hasResourceProperties('AWS::CertificateManager::Certificate', {
+    DomainName: 'search.example.com',
+    ValidationMethod: 'DNS',
+  });
+  infraTemplate.hasResourceProperties('AWS::Route53::RecordSet', {
+    Name: 'search.example.com.',
+    Type: 'A',
+    HostedZoneId: 'Z0123456789',
+  });
+  infraTemplate.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    Port: 443,
+    Protocol: 'TLS',
+    Certificates: [
+      {
+        CertificateArn: {
+          Ref: Match.stringLikeRegexp('clusterTlsCertificate'),
+        },
+      },
+    ],
+  });
+  infraTemplate.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    Port: 8443,
+    Protocol: 'TLS',
+  });
+  infraTemplate.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+    Port: 9200,
+    Protocol: 'TLS',
+  });
+  infraTemplate.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+    Port: 5601,
+    Protocol: 'TCP',
+  });
+  // only the role of the seed node can write the certificates, it shares the policy of the instance role of the other nodes
+  const policies = infraTemplate.findResources('AWS::IAM::Policy');
+  const rolesOf = (action: string) => Object.values(policies)
+    .filter((policy) => JSON.stringify(policy.Properties.PolicyDocument).includes(`"${action}"`))
+    .map((policy) => policy.Properties.Roles.map((role: { Ref: string }) => role.Ref));
+  const roleId = (prefix: string) => Object.keys(infraTemplate.findResources('AWS::IAM::Role'))
+    .filter((logicalId) => logicalId.startsWith(prefix))[0];
+  expect(rolesOf('secretsmanager:PutSecretValue')).toEqual([[roleId('seedInstanceRole')]]);
+  expect(rolesOf('cloudformation:DescribeStacks')).toEqual([[roleId('instanceRole'), roleId('seedInstanceRole')]]);
+  const profileRoles = new Set(Object.values(infraTemplate.findResources('AWS::IAM::InstanceProfile'))
+    .map((profile) => profile.Properties.Roles[0].Ref));
+  expect(Array.from(profileRoles).sort()).toEqual([roleId('instanceRole'), roleId('seedInstanceRole')].sort());
+
+  // only the seed node generates the certificates, for the private DNS names of the region, and keeps the key of the CA
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/install-certificates.sh': {
+              content: Match.objectLike({
+                'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('if \\[ "true" = "true" \\]'),
+                  Match.stringLikeRegexp('subjectAltName=DNS:localhost,IP:127.0.0.1,DNS:\\*.ec2.internal,'
+                    + 'DNS:\\*.us-east-1.compute.internal,DNS:search.example.com"[^]*'
+                    + 'tar czf - root-ca.pem admin-key.pem admin.pem node-key.pem node.pem \\|')])],
+              }),
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/seedNodeAsg' }]),
+    },
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/install-certificates.sh': {
+              content: Match.objectLike({
+                'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('if \\[ "false" = "true" \\]')])],
+              }),
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/dataNodeAsg' }]),
+    },
+  });
+});
+
+test('Test multi-node cluster with an existing admin password, internal users and security roles', () => {
+  const app = new App({
+    context: {
+      securityDisabled: false,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'www.example.com',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      adminPasswordSecretArn: 'arn:aws:secretsmanager:us-east-1:123456789012:secret:admin-AbCdEf',
+      internalUsers: [{ username: 'reader', hash: '$2y$12$88IFVl6IfIwCFh5aQYfOmuXVL9j2hz/GusQb35o.4sdTDAEMTOD.K', backendRoles: ['readall'] }],
+      securityRoles: [{ name: 'log_readers', indexPermissions: [{ indexPatterns: ['logs-*'], allowedActions: ['read'] }], users: ['reader'] }],
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  // only the password of the dashboards server user is generated
+  infraTemplate.resourceCountIs('AWS::SecretsManager::Secret', 1);
+  infraTemplate.hasResourceProperties('AWS::SecretsManager::Secret', {
+    GenerateSecretString: {
+      SecretStringTemplate: '{"username":"kibanaserver"}',
+      GenerateStringKey: 'password',
+    },
+  });
+  infraTemplate.hasOutput('adminpasswordsecretarn', {
+    Value: 'arn:aws:secretsmanager:us-east-1:123456789012:secret:admin-AbCdEf',
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/security-config/internal_users.yml': {
+              content: Match.stringLikeRegexp('reader:\n  hash: \\$2y\\$12\\$'),
+            },
+            '/home/ec2-user/security-config/roles.yml': {
+              content: Match.stringLikeRegexp('log_readers:'),
+            },
+            '/home/ec2-user/security-config/roles_mapping.yml': {
+              content: Match.stringLikeRegexp('users:\n    - reader'),
+            },
+            '/home/ec2-user/run-securityadmin.sh': {
+              content: Match.stringLikeRegexp('echo "Timed out waiting for the cluster to form"; exit 1; fi\n'),
+            },
+            '/etc/systemd/system/opensearch.service': Match.anyValue(),
+            '/etc/systemd/system/opensearch-securityadmin.service': Match.anyValue(),
+          },
+          services: {
+            sysvinit: {
+              opensearch: { enabled: true, ensureRunning: true },
+              'opensearch-dashboards': { enabled: true, ensureRunning: true },
+              'opensearch-securityadmin': { enabled: false, ensureRunning: true },
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/seedNodeAsg' }]),
+    },
+  });
+  // the passwords are hashed from the environment of hash.sh, never from its command line
+  const securityConfigScripts = Object.values(infraTemplate.findResources('AWS::AutoScaling::AutoScalingGroup'))
+    .map((asg) => JSON.stringify(asg.Metadata['AWS::CloudFormation::Init'].config.files['/home/ec2-user/install-security-config.sh']));
+  securityConfigScripts.forEach((script) => {
+    expect(script).toContain('admin_hash=$(HASH_PASSWORD=\\"$(aws secretsmanager get-secret-value');
+    expect(script).toContain('hash.sh -env HASH_PASSWORD | tail -n 1)');
+    expect(script).not.toContain('hash.sh -p');
+  });
+});
+
+test('Test single node cluster waiting for a yellow cluster health', () => {
+  const app = new App({
+    context: {
+      securityDisabled: false,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: true,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      clusterHealthStatus: 'yellow',
+      clusterHealthTimeout: 30,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResource('AWS::EC2::Instance', {
+    // the installation budget of the node plus the health timeout
+    CreationPolicy: {
+      ResourceSignal: { Timeout: 'PT50M' },
+    },
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          packages: {
+            yum: { jq: [] },
+          },
+          files: {
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.objectLike({
+                'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('OPENSEARCH_URL=https://localhost:9200\nHEALTH_STATUS=yellow\n'
+                  + 'HEALTH_TIMEOUT=1800\nSIGNAL_STACK=opensearch-infra-stack\nSIGNAL_RESOURCE=singlenodeinstance[0-9A-Fa-f]+\nSIGNAL_REGION=us-east-1\n'
+                  + 'ADMIN_PASSWORD_SECRET=')])],
+              }),
+            },
+            '/etc/systemd/system/opensearch-health-check.service': {
+              content: Match.stringLikeRegexp("ExecStart=.*/node-bootstrap.sh wait-for-health >> /var/log/opensearch-bootstrap.log 2>&1'\n"),
+            },
+          },
+          services: {
+            sysvinit: {
+              'opensearch-health-check': { enabled: false, ensureRunning: true },
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Test rolling updates of the node groups with the cluster manager nodes last', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 3,
+      dataNodeCount: 3,
+      clientNodeCount: 1,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    UpdatePolicy: {
+      AutoScalingRollingUpdate: {
+        MaxBatchSize: 1,
+        MinInstancesInService: 2,
+        PauseTime: 'PT40M',
+        WaitOnResourceSignals: true,
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/dataNodeAsg' }]),
+    },
+  });
+  infraTemplate.resourceCountIs('AWS::AutoScaling::LifecycleHook', 4);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::LifecycleHook', {
+    LifecycleHookName: 'opensearch-drain',
+    LifecycleTransition: 'autoscaling:EC2_INSTANCE_TERMINATING',
+    HeartbeatTimeout: 3600,
+    DefaultResult: 'CONTINUE',
+  });
+
+  // the data and client groups are updated side by side, then the seed node and the other cluster manager nodes
+  const asgs = infraTemplate.findResources('AWS::AutoScaling::AutoScalingGroup');
+  const asgId = (prefix: string) => Object.keys(asgs).filter((logicalId) => logicalId.startsWith(prefix))[0];
+  const asgDependencies = (prefix: string) => (<string[]>(asgs[asgId(prefix)].DependsOn ?? [])).filter((id) => id in asgs);
+  expect(asgDependencies('dataNodeAsg')).toEqual([]);
+  expect(asgDependencies('clientNodeAsg')).toEqual([]);
+  expect(asgDependencies('seedNodeAsg').sort()).toEqual([asgId('clientNodeAsg'), asgId('dataNodeAsg')].sort());
+  expect(asgDependencies('managerNodeAsg')).toEqual([asgId('seedNodeAsg')]);
+
+  // the last cluster manager eligible group waits for every node of the cluster while the stack is created
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.stringLikeRegexp('DRAIN_TIMEOUT=3600\nHEALTH_NODE_COUNT=7\n'),
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/managerNodeAsg' }]),
+    },
+  });
+  const seedInit = asgs[asgId('seedNodeAsg')].Metadata['AWS::CloudFormation::Init'];
+  expect(seedInit.config.files['/home/ec2-user/bootstrap/node.env'].content).not.toContain('HEALTH_NODE_COUNT');
+  infraTemplate.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([{
+        Action: 'cloudformation:DescribeStacks',
+        Effect: 'Allow',
+        Resource: { Ref: 'AWS::StackId' },
+      }]),
+    },
+  });
+
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.stringLikeRegexp('OPENSEARCH_URL=http://localhost:9200\n[^]*DRAIN_HOOK=opensearch-drain\nDRAIN_TIMEOUT=3600\n'),
+            },
+            '/etc/systemd/system/opensearch-drain.service': {
+              content: Match.stringLikeRegexp("ExecStart=.*/node-bootstrap.sh watch-termination >> /var/log/opensearch-bootstrap.log 2>&1'\n"),
+            },
+          },
+          services: {
+            sysvinit: {
+              'opensearch-drain': { enabled: true, ensureRunning: true },
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Create the seed node first when it generates the certificates of a multi-node cluster', () => {
+  const app = new App({
+    context: {
+      securityDisabled: false,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      generateCertificates: true,
+      managerNodeCount: 3,
+      dataNodeCount: 3,
+      clientNodeCount: 1,
+      mlNodeCount: 1,
+      ingestNodeCount: 1,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+
+  // every other node waits for the certificates generated by the seed node, the other cluster manager nodes are still created last
+  const asgs = infraTemplate.findResources('AWS::AutoScaling::AutoScalingGroup');
+  const asgId = (prefix: string) => Object.keys(asgs).filter((logicalId) => logicalId.startsWith(prefix))[0];
+  const asgDependencies = (prefix: string) => (<string[]>(asgs[asgId(prefix)].DependsOn ?? [])).filter((id) => id in asgs);
+  expect(asgDependencies('seedNodeAsg')).toEqual([]);
+  ['dataNodeAsg', 'clientNodeAsg', 'mlNodeAsg', 'ingestNodeAsg'].forEach((prefix) => {
+    expect(asgDependencies(prefix)).toEqual([asgId('seedNodeAsg')]);
+  });
+  expect(asgDependencies('managerNodeAsg').sort()).toEqual(['seedNodeAsg', 'dataNodeAsg', 'clientNodeAsg', 'mlNodeAsg', 'ingestNodeAsg']
+    .map(asgId).sort());
+
+  const nodeEnv = (prefix: string) => JSON.stringify(asgs[asgId(prefix)].Metadata['AWS::CloudFormation::Init'].config
+    .files['/home/ec2-user/bootstrap/node.env'].content);
+  expect(nodeEnv('seedNodeAsg')).not.toContain('HEALTH_NODE_COUNT');
+  expect(nodeEnv('managerNodeAsg')).toContain('HEALTH_NODE_COUNT=9\\n');
+
+  // the seed cluster manager node signals once started, the security index has no data node to be allocated to before, and applies
+  // the security config in the background once the other nodes joined
+  expect(nodeEnv('seedNodeAsg')).toContain('HEALTH_STATUS=green\\nHEALTH_TIMEOUT=1200\\n');
+  expect(nodeEnv('seedNodeAsg')).toContain('CLUSTER_FORMATION_TIMEOUT=2400\\n');
+  expect(nodeEnv('managerNodeAsg')).not.toContain('CLUSTER_FORMATION_TIMEOUT');
+  expect(nodeEnv('dataNodeAsg')).not.toContain('CLUSTER_FORMATION_TIMEOUT');
+  const seedFiles = asgs[asgId('seedNodeAsg')].Metadata['AWS::CloudFormation::Init'].config.files;
+  expect(seedFiles['/etc/systemd/system/opensearch-securityadmin.service'].content).toContain('Type=simple\n');
+  expect(seedFiles['/home/ec2-user/run-securityadmin.sh'].content).toContain('for i in $(seq 1 240); do\n');
+});
+
+test('Keep the only cluster manager eligible node on stack updates', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 0,
+      dataNodeCount: 3,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const asgs = Template.fromStack(infraStack).findResources('AWS::AutoScaling::AutoScalingGroup');
+  const asgId = (prefix: string) => Object.keys(asgs).filter((logicalId) => logicalId.startsWith(prefix))[0];
+  expect(asgs[asgId('seedNodeAsg')].UpdatePolicy).toBeUndefined();
+  expect(asgs[asgId('seedNodeAsg')].Metadata['AWS::CloudFormation::Init'].config.files['/home/ec2-user/bootstrap/node.env'].content)
+    .toContain('HEALTH_NODE_COUNT=3\n');
+  expect(asgs[asgId('dataNodeAsg')].UpdatePolicy.AutoScalingRollingUpdate).toEqual(expect.objectContaining({ MaxBatchSize: 1 }));
+  Annotations.fromStack(infraStack).hasWarning('*', Match.stringLikeRegexp('^managerNodeCount: the seed node is the only cluster manager'));
+});
+
+test('Test rolling update of an empty data node group next to the seed node', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 0,
+      dataNodeCount: 1,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  Template.fromStack(infraStack).hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Properties: {
+      MinSize: '0',
+      MaxSize: '0',
+      DesiredCapacity: '0',
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/dataNodeAsg' }]),
+    },
+    UpdatePolicy: {
+      AutoScalingRollingUpdate: { MaxBatchSize: 1, MinInstancesInService: 0 },
+    },
+  });
+});
+
+test('Test blue/green deployment serving the green cluster with its own certificate', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com/opensearch-2.3.0.tar.gz',
+      cpuArch: 'x64',
+      singleNodeCluster: true,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      greenDistributionUrl: 'www.example.com/opensearch-2.4.0.tar.gz',
+      domainName: 'search.example.com',
+      certificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/blue',
+      greenCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/green',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const blueTemplate = Template.fromStack(testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0]);
+  blueTemplate.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    Port: 443,
+    Certificates: [{ CertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/blue' }],
+  });
+  const greenTemplate = Template.fromStack(testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack-green')[0]);
+  greenTemplate.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    Port: 443,
+    Certificates: [{ CertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/green' }],
+  });
+});
+
+test('Test blue/green deployment restoring the latest snapshot of the blue cluster', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com/opensearch-2.3.0.tar.gz',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      greenDistributionUrl: 'www.example.com/opensearch-2.4.0.tar.gz',
+      greenDistVersion: '2.4.0',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  expect(testStack.stacks.map((s) => s.stackName)).toEqual(['opensearch-network-stack', 'opensearch-infra-stack', 'opensearch-infra-stack-green']);
+  // the blue cluster gets a snapshot repository, which the green cluster restores from
+  const blueTemplate = Template.fromStack(testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0]);
+  blueTemplate.resourceCountIs('AWS::S3::Bucket', 1);
+  blueTemplate.hasOutput('snapshotbucket', {});
+  const greenStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack-green')[0];
+  const greenTemplate = Template.fromStack(greenStack);
+  greenTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/node.env': {
+              content: {
+                'Fn::Join': ['', Match.arrayWith([
+                  Match.stringLikeRegexp('RESTORE_REPOSITORY=opensearch-infra-stack-snapshots\nRESTORE_BUCKET=$'),
+                  { 'Fn::ImportValue': Match.stringLikeRegexp('^opensearch-infra-stack:.*snapshotBucket') },
+                  Match.stringLikeRegexp('^\nRESTORE_BASE_PATH=opensearch-infra-stack\n'),
+                ])],
+              },
+            },
+            '/etc/systemd/system/opensearch-restore.service': {
+              content: Match.stringLikeRegexp("ExecStart=.*/node-bootstrap.sh restore-snapshot >> /var/log/opensearch-bootstrap.log 2>&1'\n"),
+            },
+          },
+          commands: {
+            '003': {
+              command: 'set -ex;/home/ec2-user/bootstrap/node-bootstrap.sh install-opensearch',
+              env: {
+                DISTRIBUTION_URL: 'www.example.com/opensearch-2.4.0.tar.gz',
+              },
+            },
+          },
+          services: {
+            sysvinit: {
+              'opensearch-restore': { enabled: false, ensureRunning: true },
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack-green/seedNodeAsg' }]),
+    },
+  });
+  // the green cluster only reads the repository of the blue cluster, without a repository of its own unless configured
+  greenTemplate.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        {
+          Action: ['s3:GetObject*', 's3:GetBucket*', 's3:List*'],
+          Effect: 'Allow',
+          Resource: Match.arrayWith([{ 'Fn::ImportValue': Match.stringLikeRegexp('^opensearch-infra-stack:.*snapshotBucket.*Arn') }]),
+        },
+        {
+          Action: ['kms:Decrypt', 'kms:DescribeKey'],
+          Effect: 'Allow',
+          Resource: { 'Fn::ImportValue': Match.stringLikeRegexp('^opensearch-infra-stack:.*snapshotBucketKey') },
+        },
+      ]),
+    },
+  });
+  greenTemplate.resourceCountIs('AWS::S3::Bucket', 0);
+  // both endpoints are output for side-by-side validation
+  greenTemplate.hasOutput('loadbalancerurl', {});
+  greenTemplate.hasOutput('blueloadbalancerurl', {
+    Value: { 'Fn::ImportValue': Match.stringLikeRegexp('^opensearch-infra-stack:') },
+  });
+});
+
+test('Test snapshot repository registered by the seed node with a snapshot management policy', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      snapshotRepository: JSON.stringify({
+        infrequentAccessDays: 30,
+        schedule: '0 2 * * *',
+        retention: { maxCount: '14' },
+      }),
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  // the snapshots outlive the stack
+  infraTemplate.hasResource('AWS::S3::Bucket', {
+    DeletionPolicy: 'Retain',
+    Properties: {
+      BucketEncryption: {
+        ServerSideEncryptionConfiguration: [Match.objectLike({ ServerSideEncryptionByDefault: Match.objectLike({ SSEAlgorithm: 'aws:kms' }) })],
+      },
+      LifecycleConfiguration: {
+        Rules: [{
+          AbortIncompleteMultipartUpload: { DaysAfterInitiation: 7 },
+          Status: 'Enabled',
+          Transitions: [{ StorageClass: 'STANDARD_IA', TransitionInDays: 30 }],
+        }],
+      },
+    },
+  });
+  infraTemplate.resourceCountIs('AWS::KMS::Key', 1);
+  infraTemplate.hasOutput('snapshotbucket', {});
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.stringLikeRegexp('SNAPSHOT_REPOSITORY=opensearch-infra-stack-snapshots\nSNAPSHOT_POLICY=opensearch-infra-stack-snapshots\n'),
+            },
+            '/home/ec2-user/bootstrap/snapshot-repository.json': {
+              content: Match.objectLike({
+                'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('"base_path": "opensearch-infra-stack",\n[^]*"region": "us-east-1"')])],
+              }),
+            },
+            '/home/ec2-user/bootstrap/snapshot-policy.json': {
+              content: Match.stringLikeRegexp('"max_count": 14,\n[^]*"min_count": 1\n'),
+            },
+            '/etc/systemd/system/opensearch-snapshot-repository.service': {
+              content: Match.stringLikeRegexp("ExecStart=.*/node-bootstrap.sh register-repository >> /var/log/opensearch-bootstrap.log 2>&1'\n"),
+            },
+          },
+          services: {
+            sysvinit: {
+              'opensearch-snapshot-repository': { enabled: false, ensureRunning: true },
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/seedNodeAsg' }]),
+    },
+  });
+  // the other nodes leave the registration to the seed node
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: Match.not(Match.objectLike({ '/home/ec2-user/bootstrap/snapshot-repository.json': Match.anyValue() })),
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/managerNodeAsg' }]),
+    },
+  });
+});
+
+test('Test snapshot repository in an existing bucket encrypted with an existing key', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: true,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      snapshotRepository: {
+        bucketArn: 'arn:aws:s3:::shared-snapshots',
+        basePath: 'clusters/logs',
+        kmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab',
+      },
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.resourceCountIs('AWS::S3::Bucket', 0);
+  infraTemplate.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: Match.arrayWith(['s3:PutObject']),
+          Resource: Match.arrayWith(['arn:aws:s3:::shared-snapshots']),
+        }),
+        Match.objectLike({
+          Action: Match.arrayWith(['kms:Decrypt']),
+          Resource: 'arn:aws:kms:us-east-1:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab',
+        }),
+      ]),
+    },
+  });
+  infraTemplate.hasResource('AWS::EC2::Instance', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/snapshot-repository.json': {
+              content: Match.stringLikeRegexp('"bucket": "shared-snapshots",\n *"base_path": "clusters/logs"'),
+            },
+            // no policy without a schedule
+            '/home/ec2-user/bootstrap/snapshot-policy.json': Match.absent(),
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Test multi-node cluster spread across availability zones with forced zone awareness', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 3,
+      dataNodeCount: 4,
+      zoneCount: 3,
+      forceZoneAwareness: true,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const networkTemplate = Template.fromStack(testStack.stacks.filter((s) => s.stackName === 'opensearch-network-stack')[0]);
+  networkTemplate.resourceCountIs('AWS::EC2::NatGateway', 3);
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  // one cluster manager node per zone, the seed node in the first one and the other cluster manager nodes in the next ones
+  const subnetCount = (name: string) => Object.values(infraTemplate.findResources('AWS::AutoScaling::AutoScalingGroup'))
+    .filter((asg: any) => asg.Properties.Tags.some((tag: any) => tag.Key === 'Name' && tag.Value === `opensearch-infra-stack/${name}`))
+    .map((asg: any) => asg.Properties.VPCZoneIdentifier.length)[0];
+  expect(subnetCount('seedNodeAsg')).toEqual(1);
+  expect(subnetCount('managerNodeAsg')).toEqual(2);
+  expect(subnetCount('dataNodeAsg')).toEqual(3);
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/opensearch.yml': {
+              content: Match.stringLikeRegexp('node.attr.zone: __AVAILABILITY_ZONE__\n'
+                + 'cluster.routing.allocation.awareness.attributes: zone\n'
+                + 'cluster.routing.allocation.awareness.force.zone.values:\n  - dummy1a\n  - dummy1b\n  - dummy1c\n'),
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/dataNodeAsg' }]),
+    },
+  });
+});
+
+test('Test data and client nodes on spot capacity with mixed instance types', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 3,
+      dataNodeCount: 4,
+      clientNodeCount: 2,
+      use50PercentHeap: true,
+      storageVolumeType: 'gp3',
+      storageThroughput: 250,
+      spotCapacity: '{"data":{"instanceTypes":["r5a.xlarge","r6i.xlarge"],"onDemandBaseCapacity":1},'
+        + '"client":{"instanceTypes":["c6i.xlarge"],"onDemandPercentageAboveBaseCapacity":50}}',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  // the cluster manager nodes stay on demand
+  infraTemplate.resourceCountIs('AWS::AutoScaling::LaunchConfiguration', 2);
+  infraTemplate.resourceCountIs('AWS::EC2::LaunchTemplate', 2);
+  infraTemplate.hasResourceProperties('AWS::EC2::LaunchTemplate', {
+    LaunchTemplateData: {
+      BlockDeviceMappings: [{ DeviceName: '/dev/xvda', Ebs: { VolumeSize: 100, VolumeType: 'gp3', Throughput: 250 } }],
+      MetadataOptions: { HttpTokens: 'required' },
+    },
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/cluster.options': {
+              content: Match.stringLikeRegexp('-Xms__HEAP_SIZE__\n-Xmx__HEAP_SIZE__\n'),
+            },
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.stringLikeRegexp('SPOT_INSTANCE=true\n'),
+            },
+            // an interrupted spot node drains through the shared exclusion list, which drops the nodes that left the cluster
+            '/home/ec2-user/bootstrap/node-bootstrap.sh': {
+              content: Match.stringLikeRegexp('nodes=\\$\\(query_node "/_cat/nodes\\?h=ip&format=json"[^]*'
+                + 'drain_node "\\$ip" "\\$SPOT_DRAIN_TIMEOUT"'),
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      CapacityRebalance: true,
+      MixedInstancesPolicy: {
+        InstancesDistribution: {
+          OnDemandBaseCapacity: 1,
+          OnDemandPercentageAboveBaseCapacity: 0,
+          SpotAllocationStrategy: 'capacity-optimized',
+        },
+        LaunchTemplate: {
+          Overrides: [{ InstanceType: 'r5.xlarge' }, { InstanceType: 'r5a.xlarge' }, { InstanceType: 'r6i.xlarge' }],
+        },
+      },
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/dataNodeAsg' }]),
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    CapacityRebalance: true,
+    MixedInstancesPolicy: {
+      InstancesDistribution: {
+        OnDemandBaseCapacity: 0,
+        OnDemandPercentageAboveBaseCapacity: 50,
+      },
+      LaunchTemplate: {
+        Overrides: [{ InstanceType: 'c5.xlarge' }, { InstanceType: 'c6i.xlarge' }],
+      },
+    },
+  });
+});
+
+test('Test data and ingest node groups scaling on the metrics of their nodes', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 3,
+      dataNodeCount: 3,
+      ingestNodeCount: 2,
+      autoScaling: '{"data":{"maxNodeCount":9},"ingest":{"minNodeCount":1,"maxNodeCount":4}}',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.stringLikeRegexp('METRICS_NAMESPACE=OpenSearch/Nodes\n'),
+            },
+            '/etc/systemd/system/opensearch-metrics.service': {
+              content: Match.stringLikeRegexp("ExecStart=.*/node-bootstrap.sh publish-metrics >> /var/log/opensearch-bootstrap.log 2>&1'"),
+            },
+          },
+          services: {
+            sysvinit: {
+              'opensearch-metrics': { enabled: true, ensureRunning: true },
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      MinSize: '3',
+      MaxSize: '9',
+      DesiredCapacity: Match.absent(),
+      Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/dataNodeAsg' }]),
+    },
+    UpdatePolicy: {
+      AutoScalingRollingUpdate: { MaxBatchSize: 1, MinInstancesInService: 2 },
+    },
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    MinSize: '1',
+    MaxSize: '4',
+    Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/ingestNodeAsg' }]),
+  });
+  // heap and rejection scale out policies of both groups plus the disk scale out policy of the data node group
+  infraTemplate.resourcePropertiesCountIs('AWS::AutoScaling::ScalingPolicy', {
+    PolicyType: 'StepScaling',
+    StepAdjustments: Match.arrayWith([Match.objectLike({ ScalingAdjustment: 1 })]),
+  }, 5);
+  infraTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    ComparisonOperator: 'GreaterThanOrEqualToThreshold',
+    EvaluationPeriods: 3,
+    Threshold: 75,
+    MetricName: 'HeapUsedPercent',
+    Namespace: 'OpenSearch/Nodes',
+    Statistic: 'Average',
+  });
+  infraTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    ComparisonOperator: 'LessThanOrEqualToThreshold',
+    EvaluationPeriods: 30,
+    Threshold: 40,
+    Metrics: Match.arrayWith([Match.objectLike({ Expression: 'MAX([heap, disk])' })]),
+    AlarmActions: [{ 'Fn::GetAtt': [Match.stringLikeRegexp('^dataNodeAsgscaleIn'), 'Arn'] }],
+  });
+  // both groups remove one node at a time, waiting for its drain and the cooldown before the next one
+  infraTemplate.resourcePropertiesCountIs('AWS::AutoScaling::ScalingPolicy', {
+    PolicyType: 'SimpleScaling',
+    AdjustmentType: 'ChangeInCapacity',
+    ScalingAdjustment: -1,
+    Cooldown: '1800',
+  }, 2);
+  // the cluster manager nodes keep their count
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    MinSize: '2',
+    MaxSize: '2',
+    DesiredCapacity: '2',
+    Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/managerNodeAsg' }]),
+  });
+});
+
+test('Test data tiers scaling from their own node counts', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.7.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      dataTiers: JSON.stringify([{ name: 'hot', nodeCount: 3 }, { name: 'cold', nodeCount: 1 }]),
+      autoScaling: '{"data":{"maxNodeCount":6}}',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraTemplate = Template.fromStack(testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0]);
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    MinSize: '3',
+    MaxSize: '6',
+    Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/hotDataNodeAsg' }]),
+  });
+  infraTemplate.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+    MinSize: '1',
+    MaxSize: '6',
+    Tags: Match.arrayWith([{ Key: 'Name', PropagateAtLaunch: true, Value: 'opensearch-infra-stack/coldDataNodeAsg' }]),
+  });
+});
+
+test('Test node stats sent to the CloudWatch agent with the role of the node and the cluster name', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 3,
+      dataNodeCount: 3,
+      clientNodeCount: 2,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json': {
+              content: {
+                'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(
+                  '"pattern": "org.opensearch.bootstrap.OpenSearch",[^]*"role": "data",\\s*"cluster": "opensearch-infra-stack-test-account-us-east-1"'
+                  + '[^]*"statsd": \\{\\s*"service_address": ":8125"',
+                )])],
+              },
+            },
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.stringLikeRegexp('STATSD_PORT=8125\nSTATS_ROLE=data\nSTATS_CLUSTER=opensearch-infra-stack-test-account-us-east-1\n'),
+            },
+            '/etc/systemd/system/opensearch-stats.service': {
+              content: Match.stringLikeRegexp("ExecStart=.*/node-bootstrap.sh collect-stats >> /var/log/opensearch-bootstrap.log 2>&1'"),
+            },
+          },
+          services: {
+            sysvinit: {
+              'opensearch-stats': { enabled: true, ensureRunning: true },
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'role', PropagateAtLaunch: true, Value: 'data' }]),
+    },
+  });
+  infraTemplate.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/home/ec2-user/bootstrap/node.env': {
+              content: Match.stringLikeRegexp('STATS_ROLE=client\n'),
+            },
+          },
+        },
+      },
+    },
+    Properties: {
+      Tags: Match.arrayWith([{ Key: 'role', PropagateAtLaunch: true, Value: 'client' }]),
+    },
+  });
+});
+
+test('Test cluster dashboard and alarms notifying a created topic', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: false,
+      dashboardsUrl: 'www.example.com',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      managerNodeCount: 3,
+      dataNodeCount: 3,
+      ingestNodeCount: 2,
+      autoScaling: '{"ingest":{"minNodeCount":1,"maxNodeCount":4}}',
+      monitoring: '{"alarmEmails":["oncall@example.com"]}',
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResourceProperties('AWS::CloudWatch::Dashboard', {
+    DashboardName: 'opensearch-infra-stack',
+  });
+  infraTemplate.hasResourceProperties('AWS::SNS::Subscription', {
+    Protocol: 'email',
+    Endpoint: 'oncall@example.com',
+  });
+  const clusterName = 'opensearch-infra-stack-test-account-us-east-1';
+  const topic = { Ref: Match.stringLikeRegexp('alarmTopic') };
+  infraTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    AlarmName: 'opensearch-infra-stack-cluster-red',
+    Namespace: 'CWAgent',
+    MetricName: 'opensearch.cluster.status',
+    Dimensions: [{ Name: 'cluster', Value: clusterName }, { Name: 'metric_type', Value: 'gauge' }],
+    Statistic: 'Maximum',
+    Threshold: 2,
+    AlarmActions: [topic],
+    OKActions: [topic],
+  });
+  // the seed node, 2 other cluster manager nodes, 3 data nodes and the minimum of the ingest node group
+  infraTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    AlarmName: 'opensearch-infra-stack-missing-nodes',
+    MetricName: 'opensearch.cluster.nodes',
+    ComparisonOperator: 'LessThanThreshold',
+    Threshold: 7,
+    TreatMissingData: 'breaching',
+  });
+  ['manager', 'client', 'ingest'].forEach((role) => {
+    infraTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: `opensearch-infra-stack-${role}-heap`,
+      MetricName: 'opensearch.jvm.heap_used_percent',
+      Dimensions: Match.arrayWith([{ Name: 'role', Value: role }]),
+      Threshold: 85,
+    });
+  });
+  infraTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    AlarmName: 'opensearch-infra-stack-client-disk',
+    MetricName: 'opensearch.fs.used_percent',
+    Threshold: 85,
+  });
+  infraTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    AlarmName: 'opensearch-infra-stack-dashboards-unhealthy-targets',
+    Namespace: 'AWS/NetworkELB',
+    MetricName: 'UnHealthyHostCount',
+  });
+  // cluster red and yellow, missing nodes, heap and disk of 3 roles and unhealthy targets of 2 target groups
+  infraTemplate.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', {
+    AlarmName: Match.stringLikeRegexp('^opensearch-infra-stack-'),
+  }, 11);
+});
+
+test('Test log files collected into a log group per kind with a stream per node role', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: true,
+      dashboardsUrl: 'www.example.com',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      logRetentionDays: 90,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  ['opensearch.log', 'slow.log', 'deprecation.log', 'gc.log', 'bootstrap.log'].forEach((name) => {
+    infraTemplate.hasResourceProperties('AWS::Logs::LogGroup', {
+      LogGroupName: `opensearch-infra-stackLogGroup/${name}`,
+      RetentionInDays: 90,
+    });
+  });
+  infraTemplate.hasResource('AWS::EC2::Instance', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json': {
+              content: {
+                'Fn::Join': ['', Match.arrayWith([
+                  Match.stringLikeRegexp('"file_path": "/home/ec2-user/opensearch/logs/opensearch-infra-stack-test-account-us-east-1.log"'),
+                  Match.stringLikeRegexp('"log_stream_name": "client/\\{instance_id\\}",[\\s\\S]*"multi_line_start_pattern": "\\{timestamp_format\\}"'),
+                  Match.stringLikeRegexp('"log_stream_name": "client/search/\\{instance_id\\}"'),
+                  Match.stringLikeRegexp('"log_stream_name": "client/cfn-init/\\{instance_id\\}"'),
+                  Match.stringLikeRegexp('"file_path": "/var/log/opensearch-bootstrap.log"'),
+                  Match.stringLikeRegexp('"log_stream_name": "client/units/\\{instance_id\\}",[\\s\\S]*"timestamp_format": "%Y-%m-%d %H:%M:%S"[\\s\\S]*'
+                    + '"file_path": "/home/ec2-user/opensearch-dashboards/dashboard_install.log"'),
+                ])],
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+});
+
+test('Test JSON logs collected with their timestamps and saved Logs Insights queries', () => {
+  const app = new App({
+    context: {
+      securityDisabled: true,
+      minDistribution: false,
+      distributionUrl: 'www.example.com',
+      cpuArch: 'x64',
+      singleNodeCluster: true,
+      dashboardsUrl: 'undefined',
+      distVersion: '2.3.0',
+      serverAccessType: 'ipv4',
+      restrictServerAccessTo: 'all',
+      jsonLogs: true,
+    },
+  });
+
+  // WHEN
+  const testStack = new OsClusterEntrypoint(app, {
+    env: { account: 'test-account', region: 'us-east-1' },
+  });
+
+  // THEN
+  const infraStack = testStack.stacks.filter((s) => s.stackName === 'opensearch-infra-stack')[0];
+  const infraTemplate = Template.fromStack(infraStack);
+  infraTemplate.hasResource('AWS::EC2::Instance', {
+    Metadata: {
+      'AWS::CloudFormation::Init': {
+        config: {
+          files: {
+            '/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json': {
+              content: {
+                'Fn::Join': ['', Match.arrayWith([
+                  Match.stringLikeRegexp('"file_path": "/home/ec2-user/opensearch/logs/opensearch-infra-stack-test-account-us-east-1_server.json"'),
+                  Match.stringLikeRegexp('"timestamp_format": "%Y-%m-%dT%H:%M:%S,%f",\\s+"timezone": "UTC"\\s+}'),
+                  Match.stringLikeRegexp('"file_path": "/home/ec2-user/opensearch/logs/gc.log"'),
+                  Match.stringLikeRegexp('"timestamp_format": "%Y-%m-%dT%H:%M:%S.%f%z"\\s+}'),
+                ])],
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  infraTemplate.resourceCountIs('AWS::Logs::QueryDefinition', 3);
+  infraTemplate.hasResourceProperties('AWS::Logs::QueryDefinition', {
+    Name: 'opensearch-infra-stack/Exceptions by node',
+    QueryString: 'filter @message like /Exception/ | stats count(*) as exceptions by @logStream | sort exceptions desc',
+  });
+});